@@ -47,6 +47,8 @@ describe('Hook [use-honey-form]: Work with errors', () => {
       age: [
         {
           message: 'Only numerics are allowed',
+          code: 'invalidNumber',
+          params: { decimal: false, negative: true, maxFraction: 2 },
           type: 'invalid',
         },
       ],
@@ -74,6 +76,8 @@ describe('Hook [use-honey-form]: Work with errors', () => {
       age: [
         {
           message: 'Only numerics are allowed',
+          code: 'invalidNumber',
+          params: { decimal: false, negative: true, maxFraction: 2 },
           type: 'invalid',
         },
       ],
@@ -151,7 +155,7 @@ describe('Hook [use-honey-form]: Work with errors', () => {
     expect(result.current.formFields.age.errors).toStrictEqual([]);
   });
 
-  it('should add server error to non-existing field', () => {
+  it('should add server error to non-existing field as the form root error', () => {
     const { result } = renderHook(() =>
       useHoneyForm<{ age: number }>({
         fields: {
@@ -170,14 +174,15 @@ describe('Hook [use-honey-form]: Work with errors', () => {
       });
     });
 
-    expect(result.current.formErrors).toStrictEqual({
-      name: [
-        {
-          type: 'server',
-          message: 'name should be less than 255',
-        },
-      ],
-    });
+    expect(result.current.formErrors).toStrictEqual({});
+    expect(result.current.formFields).not.toHaveProperty('name');
+    expect(result.current.formRootErrors).toStrictEqual([
+      {
+        type: 'server',
+        message: 'name should be less than 255',
+      },
+    ]);
+    expect(result.current.isFormErred).toBeTruthy();
   });
 
   it('should ignore server errors during submission', async () => {
@@ -260,4 +265,159 @@ describe('Hook [use-honey-form]: Work with errors', () => {
       ],
     });
   });
+
+  it('should set and clear the form root errors', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    expect(result.current.formRootErrors).toStrictEqual([]);
+
+    act(() =>
+      result.current.setFormRootErrors([
+        {
+          type: 'server',
+          message: 'Session expired',
+        },
+      ]),
+    );
+
+    expect(result.current.formRootErrors).toStrictEqual([
+      {
+        type: 'server',
+        message: 'Session expired',
+      },
+    ]);
+
+    act(() =>
+      result.current.setFormErrors({
+        name: [{ type: 'server', message: 'Apple is not allowed' }],
+        payment: [{ type: 'server', message: 'Payment declined' }],
+      } as never),
+    );
+
+    expect(result.current.formErrors).toStrictEqual({
+      name: [{ type: 'server', message: 'Apple is not allowed' }],
+    });
+    expect(result.current.formRootErrors).toStrictEqual([
+      { type: 'server', message: 'Payment declined' },
+    ]);
+
+    act(() => result.current.clearFormRootErrors());
+
+    expect(result.current.formRootErrors).toStrictEqual([]);
+    expect(result.current.formErrors).toStrictEqual({
+      name: [{ type: 'server', message: 'Apple is not allowed' }],
+    });
+  });
+
+  it('should set the root errors returned from the form submission', async () => {
+    const onSubmit = jest
+      .fn()
+      .mockResolvedValueOnce(
+        Promise.resolve({
+          root: ['Payment declined'],
+        }),
+      )
+      .mockResolvedValueOnce(Promise.resolve());
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+        onSubmit,
+      }),
+    );
+
+    await act(() => result.current.submitForm());
+
+    expect(result.current.formErrors).toStrictEqual({});
+    expect(result.current.formRootErrors).toStrictEqual([
+      {
+        type: 'server',
+        message: 'Payment declined',
+      },
+    ]);
+    expect(result.current.isFormSubmitted).toBeTruthy();
+
+    // The server root errors do not prevent the form submission and are cleared before it
+    await act(() => result.current.submitForm());
+
+    expect(onSubmit).toHaveBeenCalledTimes(2);
+    expect(result.current.formRootErrors).toStrictEqual([]);
+  });
+
+  it('should keep the custom error type, code and params returned by the field validator', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ password: string }>({
+        fields: {
+          password: {
+            type: 'string',
+            validator: value =>
+              value && value.length < 8
+                ? [
+                    {
+                      type: 'weakPassword',
+                      message: 'The password is too weak',
+                      code: 'password.weak',
+                      params: { minLength: 8, actual: value.length },
+                    },
+                  ]
+                : true,
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.password.setValue('qwerty'));
+
+    expect(result.current.formErrors).toStrictEqual({
+      password: [
+        {
+          type: 'weakPassword',
+          message: 'The password is too weak',
+          code: 'password.weak',
+          params: { minLength: 8, actual: 6 },
+        },
+      ],
+    });
+  });
+
+  it('should add the built-in error code and params to the built-in validator errors', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        fields: {
+          name: {
+            type: 'string',
+            min: 3,
+            errorMessages: {
+              min: 'Too short',
+            },
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.name.setValue('A'));
+
+    expect(result.current.formErrors).toStrictEqual({
+      name: [
+        {
+          type: 'min',
+          message: 'Too short',
+          code: 'minLength',
+          params: { min: 3, actual: 1 },
+        },
+      ],
+    });
+  });
 });
@@ -0,0 +1,1295 @@
+import { StrictMode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import type {
+  HoneyFormStorageAdapter,
+  HoneyFormStoragePayload,
+  HoneyFormFieldsConfigs,
+} from '../types';
+import { useHoneyForm } from '../hooks';
+import {
+  createHoneyFormMemoryStorage,
+  createHoneyFormQueryStringStorage,
+  createHoneyFormStorageReadError,
+} from '../storage';
+
+describe('Hook [use-honey-form]: Local storage', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should save form values to the local storage when any field value is changed', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string; age: number }>({
+        name: 'profile',
+        storage: 'ls',
+        fields: {
+          name: {
+            type: 'string',
+          },
+          age: {
+            type: 'number',
+          },
+        },
+      }),
+    );
+
+    expect(window.localStorage.getItem('profile')).toBeNull();
+
+    act(() => result.current.formFields.name.setValue('Peter'));
+
+    const savedForm = JSON.parse(window.localStorage.getItem('profile')) as Record<string, unknown>;
+
+    expect(typeof savedForm.savedAt).toBe('number');
+    expect(savedForm.values).toStrictEqual({ name: 'Peter' });
+  });
+
+  it('should read default values from the local storage using field deserializer', () => {
+    window.localStorage.setItem(
+      'profile',
+      JSON.stringify({ savedAt: Date.now(), values: { name: 'Peter', tags: 'a,b' } }),
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string; tags: string[] }>({
+        name: 'profile',
+        storage: 'ls',
+        readDefaultsFromStorage: true,
+        fields: {
+          name: {
+            type: 'string',
+          },
+          tags: {
+            type: 'object',
+            serializer: tags => tags.join(','),
+            deserializer: rawTags => (rawTags as string).split(','),
+          },
+        },
+      }),
+    );
+
+    expect(result.current.formValues).toStrictEqual({ name: 'Peter', tags: ['a', 'b'] });
+
+    act(() => result.current.formFields.tags.setValue(['c']));
+
+    expect(
+      (JSON.parse(window.localStorage.getItem('profile')) as Record<string, unknown>).values,
+    ).toStrictEqual({
+      name: 'Peter',
+      tags: 'c',
+    });
+  });
+
+  it('should remove saved form values after successful submission', async () => {
+    const onSubmit = jest.fn();
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'ls',
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+        onSubmit,
+      }),
+    );
+
+    act(() => result.current.formFields.name.setValue('Peter'));
+
+    expect(window.localStorage.getItem('profile')).not.toBeNull();
+
+    await act(() => result.current.submitForm());
+
+    expect(onSubmit).toHaveBeenCalled();
+    expect(window.localStorage.getItem('profile')).toBeNull();
+  });
+
+  it('should detect the unfinished form without applying it', () => {
+    const savedAt = new Date(2024, 0, 1).getTime();
+
+    window.localStorage.setItem('profile', JSON.stringify({ savedAt, values: { name: 'Peter' } }));
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'ls',
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    expect(result.current.isUnfinishedFormDetected).toBeTruthy();
+    expect(result.current.unfinishedForm).toStrictEqual({
+      savedAt: new Date(savedAt),
+      values: { name: 'Peter' },
+    });
+    expect(result.current.formValues).toStrictEqual({ name: undefined });
+  });
+
+  it('should restore the unfinished form ignoring not existing fields', () => {
+    window.localStorage.setItem(
+      'profile',
+      JSON.stringify({ savedAt: Date.now(), values: { name: 'Peter', city: 'Paris' } }),
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'ls',
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.restoreUnfinishedForm());
+
+    expect(result.current.isUnfinishedFormDetected).toBeFalsy();
+    expect(result.current.unfinishedForm).toBeNull();
+    expect(result.current.formValues).toStrictEqual({ name: 'Peter' });
+  });
+
+  it('should not overwrite the unfinished form in the storage until it is restored', () => {
+    const savedAt = Date.now();
+
+    window.localStorage.setItem(
+      'profile',
+      JSON.stringify({ savedAt, values: { name: 'Peter', city: 'Paris' } }),
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string; city: string }>({
+        name: 'profile',
+        storage: 'ls',
+        fields: {
+          name: {
+            type: 'string',
+          },
+          city: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.name.setValue('John'));
+
+    expect(JSON.parse(window.localStorage.getItem('profile'))).toStrictEqual({
+      savedAt,
+      values: { name: 'Peter', city: 'Paris' },
+    });
+
+    act(() => result.current.restoreUnfinishedForm());
+
+    expect(result.current.formValues).toStrictEqual({ name: 'Peter', city: 'Paris' });
+    expect(
+      (JSON.parse(window.localStorage.getItem('profile')) as Record<string, unknown>).values,
+    ).toStrictEqual({
+      name: 'Peter',
+      city: 'Paris',
+    });
+  });
+
+  it('should discard the unfinished form and remove it from the storage', () => {
+    window.localStorage.setItem(
+      'profile',
+      JSON.stringify({ savedAt: Date.now(), values: { name: 'Peter' } }),
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'ls',
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.discardUnfinishedForm());
+
+    expect(result.current.isUnfinishedFormDetected).toBeFalsy();
+    expect(result.current.formValues).toStrictEqual({ name: undefined });
+    expect(window.localStorage.getItem('profile')).toBeNull();
+  });
+
+  it('should not detect the unfinished form when defaults are read from the storage', () => {
+    window.localStorage.setItem(
+      'profile',
+      JSON.stringify({ savedAt: Date.now(), values: { name: 'Peter' } }),
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'ls',
+        readDefaultsFromStorage: true,
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    expect(result.current.isUnfinishedFormDetected).toBeFalsy();
+    expect(result.current.formValues).toStrictEqual({ name: 'Peter' });
+  });
+});
+
+describe('Hook [use-honey-form]: Storage adapter', () => {
+  it('should save form values to the custom storage adapter', () => {
+    const storage = createHoneyFormMemoryStorage();
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage,
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.name.setValue('Peter'));
+
+    expect(storage.read('profile')).toStrictEqual({
+      version: 0,
+      savedAt: expect.any(Number) as number,
+      values: { name: 'Peter' },
+    });
+  });
+
+  it('should read default values from the async storage adapter', async () => {
+    const storage: HoneyFormStorageAdapter = {
+      read: () => Promise.resolve({ values: { name: 'Peter', age: 30 } }),
+      write: jest.fn(),
+      clear: jest.fn(),
+    };
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string; age: number }>({
+        name: 'profile',
+        storage,
+        readDefaultsFromStorage: true,
+        fields: {
+          name: {
+            type: 'string',
+          },
+          age: {
+            type: 'number',
+          },
+        },
+      }),
+    );
+
+    expect(result.current.isFormDefaultsFetching).toBeTruthy();
+
+    await waitFor(() => expect(result.current.isFormDefaultsFetching).toBeFalsy());
+
+    expect(result.current.formValues).toStrictEqual({ name: 'Peter', age: 30 });
+    expect(result.current.formDefaultValues).toStrictEqual({ name: 'Peter', age: 30 });
+    expect(storage.write).not.toHaveBeenCalled();
+  });
+
+  it('should detect the unfinished form from the async storage adapter', async () => {
+    const savedAt = new Date(2024, 0, 1).getTime();
+
+    const storage: HoneyFormStorageAdapter = {
+      read: () => Promise.resolve({ savedAt, values: { name: 'Peter' } }),
+      write: jest.fn(),
+      clear: jest.fn(),
+    };
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage,
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    expect(result.current.isUnfinishedFormDetected).toBeFalsy();
+
+    await waitFor(() => expect(result.current.isUnfinishedFormDetected).toBeTruthy());
+
+    expect(result.current.unfinishedForm).toStrictEqual({
+      savedAt: new Date(savedAt),
+      values: { name: 'Peter' },
+    });
+
+    act(() => result.current.discardUnfinishedForm());
+
+    expect(storage.clear).toHaveBeenCalledWith('profile');
+  });
+
+  it('should not clear the storage after submission when the adapter does not require it', async () => {
+    const storage: HoneyFormStorageAdapter = {
+      read: () => undefined,
+      write: jest.fn(),
+      clear: jest.fn(),
+    };
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage,
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+        onSubmit: () => Promise.resolve(),
+      }),
+    );
+
+    act(() => result.current.formFields.name.setValue('Peter'));
+
+    await act(() => result.current.submitForm());
+
+    expect(storage.write).toHaveBeenCalledTimes(1);
+    expect(storage.clear).not.toHaveBeenCalled();
+  });
+});
+
+describe('Hook [use-honey-form]: Storage versions', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should save the storage version to the query string', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'qs',
+        storageVersion: 2,
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.name.setValue('Peter'));
+
+    const rawFormData = new URLSearchParams(window.location.search).get('profile');
+
+    expect(rawFormData).toBe(`2.${window.btoa(encodeURI(JSON.stringify({ name: 'Peter' })))}`);
+  });
+
+  it('should migrate the values saved without a version step by step', () => {
+    window.history.replaceState(
+      null,
+      '',
+      `/?profile=${window.btoa(encodeURI(JSON.stringify({ fullName: 'Peter', age: '30' })))}`,
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string; age: number }>({
+        name: 'profile',
+        storage: 'qs',
+        storageVersion: 2,
+        storageMigrations: {
+          0: ({ fullName, ...values }) => ({ ...values, name: fullName }),
+          1: ({ age, ...values }) => ({ ...values, age: Number(age) }),
+        },
+        readDefaultsFromStorage: true,
+        fields: {
+          name: {
+            type: 'string',
+          },
+          age: {
+            type: 'number',
+          },
+        },
+      }),
+    );
+
+    expect(result.current.formValues).toStrictEqual({ name: 'Peter', age: 30 });
+  });
+
+  it('should drop the saved values when the migration is not found', () => {
+    const onStorageError = jest.fn();
+
+    window.history.replaceState(
+      null,
+      '',
+      `/?profile=1.${window.btoa(encodeURI(JSON.stringify({ name: 'Peter' })))}`,
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'qs',
+        storageVersion: 3,
+        storageMigrations: {
+          1: values => values,
+        },
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+        onStorageError,
+      }),
+    );
+
+    expect(result.current.isUnfinishedFormDetected).toBeFalsy();
+    expect(window.location.search).toBe('');
+    expect(onStorageError).toHaveBeenCalledWith(
+      new Error('[honey-form]: The storage migration from version "2" is not found'),
+      { version: 1, values: { name: 'Peter' } },
+    );
+  });
+
+  it('should drop the saved values when the version is newer than the storage version', () => {
+    const onStorageError = jest.fn();
+
+    window.localStorage.setItem(
+      'profile',
+      JSON.stringify({ version: 2, savedAt: Date.now(), values: { name: 'Peter' } }),
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'ls',
+        storageVersion: 1,
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+        onStorageError,
+      }),
+    );
+
+    expect(result.current.isUnfinishedFormDetected).toBeFalsy();
+    expect(window.localStorage.getItem('profile')).toBeNull();
+    expect(onStorageError).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Hook [use-honey-form]: Query string params encoding', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should save each field value to its own search parameter', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ email: string; age: number; code: string; isAgreed: boolean }>({
+        name: 'profile',
+        storage: createHoneyFormQueryStringStorage({ encoding: 'params' }),
+        storageVersion: 1,
+        fields: {
+          email: {
+            type: 'email',
+          },
+          age: {
+            type: 'number',
+          },
+          code: {
+            type: 'string',
+          },
+          isAgreed: {
+            type: 'checkbox',
+          },
+        },
+      }),
+    );
+
+    act(() =>
+      result.current.setFormValues({
+        email: 'peter@example.com',
+        age: 30,
+        code: '123',
+        isAgreed: true,
+      }),
+    );
+
+    const searchParams = new URLSearchParams(window.location.search);
+
+    expect(searchParams.get('profile._v')).toBe('1');
+    expect(searchParams.get('profile.email')).toBe('peter@example.com');
+    expect(searchParams.get('profile.age')).toBe('30');
+    // Strings that look like JSON are JSON-encoded to keep their type
+    expect(searchParams.get('profile.code')).toBe('"123"');
+    expect(searchParams.get('profile.isAgreed')).toBe('true');
+  });
+
+  it('should read default values from the search parameters', () => {
+    window.history.replaceState(
+      null,
+      '',
+      '/?profile.email=a@b.c&profile.code=%22123%22&profile.tags=a,b&other=1',
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ email: string; code: string; tags: string[] }>({
+        name: 'profile',
+        storage: createHoneyFormQueryStringStorage({ encoding: 'params' }),
+        readDefaultsFromStorage: true,
+        fields: {
+          email: {
+            type: 'email',
+          },
+          code: {
+            type: 'string',
+          },
+          tags: {
+            type: 'object',
+            serializer: tags => tags.join(','),
+            deserializer: rawTags => (rawTags as string).split(','),
+          },
+        },
+      }),
+    );
+
+    expect(result.current.formValues).toStrictEqual({
+      email: 'a@b.c',
+      code: '123',
+      tags: ['a', 'b'],
+    });
+  });
+
+  it('should remove only the form search parameters when the unfinished form is discarded', () => {
+    window.history.replaceState(null, '', '/?profile.email=a@b.c&other=1');
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ email: string }>({
+        name: 'profile',
+        storage: createHoneyFormQueryStringStorage({ encoding: 'params' }),
+        fields: {
+          email: {
+            type: 'email',
+          },
+        },
+      }),
+    );
+
+    expect(result.current.unfinishedForm?.values).toStrictEqual({ email: 'a@b.c' });
+
+    act(() => result.current.discardUnfinishedForm());
+
+    expect(window.location.search).toBe('?other=1');
+  });
+
+  it('should prefill the form fields from the mapped search parameters', () => {
+    window.history.replaceState(null, '', '/?email=a@b.c&utm_source=mail&ref=123');
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ email: string; source: string; referral: string }>({
+        prefillFromSearchParams: {
+          email: 'email',
+          utm_source: 'source',
+          ref: 'referral',
+        },
+        defaults: {
+          source: 'direct',
+        },
+        fields: {
+          email: {
+            type: 'email',
+          },
+          source: {
+            type: 'string',
+          },
+          referral: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    expect(result.current.formValues).toStrictEqual({
+      email: 'a@b.c',
+      source: 'mail',
+      referral: '123',
+    });
+    expect(result.current.isFormDirty).toBeFalsy();
+  });
+});
+
+describe('Hook [use-honey-form]: Query string size budget', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should compress the form values and read them back', () => {
+    const storage = createHoneyFormQueryStringStorage({ compress: true });
+
+    const description = 'honey '.repeat(50);
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string; description: string }>({
+        name: 'profile',
+        storage,
+        storageVersion: 1,
+        fields: {
+          name: {
+            type: 'string',
+          },
+          description: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.setFormValues({ name: 'Пётр', description }));
+
+    const rawFormData = new URLSearchParams(window.location.search).get('profile');
+
+    expect(rawFormData.startsWith('1._')).toBeTruthy();
+    expect(rawFormData.length).toBeLessThan(
+      window.btoa(encodeURI(JSON.stringify({ name: 'Пётр', description }))).length,
+    );
+
+    expect(storage.read('profile')).toStrictEqual({
+      version: 1,
+      values: { name: 'Пётр', description },
+    });
+  });
+
+  it('should save the form values to the fallback storage when the query string is too long', () => {
+    const fallbackStorage = createHoneyFormMemoryStorage();
+
+    const storage = createHoneyFormQueryStringStorage({
+      maxQueryStringLength: 100,
+      fallbackStorage,
+    });
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ description: string }>({
+        name: 'profile',
+        storage,
+        fields: {
+          description: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.description.setValue('honey'.repeat(50)));
+
+    const rawFormData = new URLSearchParams(window.location.search).get('profile');
+    const reference = rawFormData.slice(1);
+
+    expect(rawFormData).toMatch(/^\*[a-z0-9]+$/);
+    expect(fallbackStorage.read(`profile.${reference}`)).toStrictEqual({
+      version: 0,
+      savedAt: expect.any(Number) as number,
+      values: { description: 'honey'.repeat(50) },
+    });
+    expect(storage.read('profile')).toBe(fallbackStorage.read(`profile.${reference}`));
+
+    act(() => result.current.formFields.description.setValue('honey'));
+
+    expect(storage.read('profile')).toStrictEqual({
+      version: undefined,
+      values: { description: 'honey' },
+    });
+    // The form data fits the query string again
+    expect(fallbackStorage.read(`profile.${reference}`)).toBeUndefined();
+  });
+});
+
+describe('Hook [use-honey-form]: Field persistence policy', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should not save the excluded and file fields', () => {
+    const storage = createHoneyFormMemoryStorage();
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ login: string; password: string; avatar: File }>({
+        name: 'sign-up',
+        storage,
+        fields: {
+          login: {
+            type: 'string',
+          },
+          password: {
+            type: 'string',
+            persist: false,
+          },
+          avatar: {
+            type: 'file',
+          },
+        },
+      }),
+    );
+
+    act(() =>
+      result.current.setFormValues({
+        login: 'peter',
+        password: 'secret',
+        avatar: new File([''], 'avatar.png'),
+      }),
+    );
+
+    expect((storage.read('sign-up') as HoneyFormStoragePayload).values).toStrictEqual({
+      login: 'peter',
+    });
+  });
+
+  it('should not read the excluded field values from the storage', () => {
+    window.localStorage.setItem(
+      'sign-up',
+      JSON.stringify({ savedAt: Date.now(), values: { login: 'peter', password: 'secret' } }),
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ login: string; password: string }>({
+        name: 'sign-up',
+        storage: 'ls',
+        readDefaultsFromStorage: true,
+        fields: {
+          login: {
+            type: 'string',
+          },
+          password: {
+            type: 'string',
+            persist: false,
+          },
+        },
+      }),
+    );
+
+    expect(result.current.formValues).toStrictEqual({ login: 'peter', password: undefined });
+  });
+
+  it('should not restore the expired field values', () => {
+    jest.useFakeTimers();
+
+    const { result, unmount } = renderHook(() =>
+      useHoneyForm<{ name: string; code: string }>({
+        name: 'profile',
+        storage: 'ls',
+        fields: {
+          name: {
+            type: 'string',
+          },
+          code: {
+            type: 'string',
+            persist: { ttl: 60_000 },
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.setFormValues({ name: 'Peter', code: '1234' }));
+
+    unmount();
+
+    jest.advanceTimersByTime(30_000);
+
+    const { result: result2, unmount: unmount2 } = renderHook(() =>
+      useHoneyForm<{ name: string; code: string }>({
+        name: 'profile',
+        storage: 'ls',
+        fields: {
+          name: {
+            type: 'string',
+          },
+          code: {
+            type: 'string',
+            persist: { ttl: 60_000 },
+          },
+        },
+      }),
+    );
+
+    expect(result2.current.unfinishedForm?.values).toStrictEqual({ name: 'Peter', code: '1234' });
+
+    unmount2();
+
+    jest.advanceTimersByTime(30_000);
+
+    const { result: result3 } = renderHook(() =>
+      useHoneyForm<{ name: string; code: string }>({
+        name: 'profile',
+        storage: 'ls',
+        fields: {
+          name: {
+            type: 'string',
+          },
+          code: {
+            type: 'string',
+            persist: { ttl: 60_000 },
+          },
+        },
+      }),
+    );
+
+    expect(result3.current.unfinishedForm?.values).toStrictEqual({ name: 'Peter' });
+  });
+
+  it('should save and restore the field value through the codec', () => {
+    const storage = createHoneyFormMemoryStorage();
+
+    const fields: HoneyFormFieldsConfigs<{ cardNumber: string }> = {
+      cardNumber: {
+        type: 'string',
+        persist: {
+          encode: value => window.btoa(value as string),
+          decode: value => window.atob(value as string),
+        },
+      },
+    };
+
+    const { result, unmount } = renderHook(() =>
+      useHoneyForm<{ cardNumber: string }>({
+        name: 'payment',
+        storage,
+        fields,
+      }),
+    );
+
+    act(() => result.current.formFields.cardNumber.setValue('4111111111111111'));
+
+    expect((storage.read('payment') as HoneyFormStoragePayload).values).toStrictEqual({
+      cardNumber: window.btoa('4111111111111111'),
+    });
+
+    unmount();
+
+    const { result: result2 } = renderHook(() =>
+      useHoneyForm<{ cardNumber: string }>({
+        name: 'payment',
+        storage,
+        readDefaultsFromStorage: true,
+        fields,
+      }),
+    );
+
+    expect(result2.current.formValues).toStrictEqual({ cardNumber: '4111111111111111' });
+  });
+});
+
+describe('Hook [use-honey-form]: Sync across tabs', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  const dispatchRemoteChange = (formName: string, values: Record<string, unknown>) => {
+    const newValue = JSON.stringify({ version: 0, savedAt: Date.now(), values });
+    // The storage event does not change the storage in the current tab, so it is set manually
+    window.localStorage.setItem(formName, newValue);
+
+    act(() => {
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: formName,
+          newValue,
+          storageArea: window.localStorage,
+        }),
+      );
+    });
+  };
+
+  it('should apply the remote values to the untouched fields only', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string; city: string }>({
+        name: 'profile',
+        storage: 'ls',
+        syncAcrossTabs: true,
+        fields: {
+          name: {
+            type: 'string',
+          },
+          city: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.name.setValue('Peter'));
+
+    dispatchRemoteChange('profile', { name: 'John', city: 'Paris' });
+
+    expect(result.current.formValues).toStrictEqual({ name: 'Peter', city: 'Paris' });
+    expect(result.current.formFields.name.hasRemoteChanges).toBeTruthy();
+    expect(result.current.formFields.city.hasRemoteChanges).toBeFalsy();
+
+    dispatchRemoteChange('profile', { name: 'Peter', city: 'London' });
+
+    expect(result.current.formValues).toStrictEqual({ name: 'Peter', city: 'London' });
+    expect(result.current.formFields.name.hasRemoteChanges).toBeFalsy();
+  });
+
+  it('should not make the form dirty when the remote values are applied', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'ls',
+        syncAcrossTabs: true,
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    dispatchRemoteChange('profile', { name: 'John' });
+
+    expect(result.current.formValues).toStrictEqual({ name: 'John' });
+    expect(result.current.isFormDirty).toBeFalsy();
+  });
+
+  it('should clear the remote changes flag when the field is changed locally again', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'ls',
+        syncAcrossTabs: true,
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.name.setValue('Peter'));
+
+    dispatchRemoteChange('profile', { name: 'John' });
+
+    expect(result.current.formFields.name.hasRemoteChanges).toBeTruthy();
+
+    act(() => result.current.formFields.name.setValue('Peter Parker'));
+
+    expect(result.current.formValues).toStrictEqual({ name: 'Peter Parker' });
+    expect(result.current.formFields.name.hasRemoteChanges).toBeFalsy();
+  });
+
+  it('should apply the remote values using the latest form context', () => {
+    const { result, rerender } = renderHook(
+      ({ maxLength }: { maxLength: number }) =>
+        useHoneyForm<{ name: string }, { maxLength: number }>({
+          name: 'profile',
+          storage: 'ls',
+          syncAcrossTabs: true,
+          context: { maxLength },
+          fields: {
+            name: {
+              type: 'string',
+              filter: (value, { formContext }) => value?.slice(0, formContext.maxLength),
+            },
+          },
+        }),
+      { initialProps: { maxLength: 2 } },
+    );
+
+    rerender({ maxLength: 4 });
+
+    dispatchRemoteChange('profile', { name: 'Johnny' });
+
+    expect(result.current.formValues).toStrictEqual({ name: 'John' });
+  });
+
+  it('should not save the remote values back to the storage', () => {
+    const setItemSpy = jest.spyOn(Storage.prototype, 'setItem');
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'ls',
+        syncAcrossTabs: true,
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    dispatchRemoteChange('profile', { name: 'John' });
+
+    expect(result.current.formValues).toStrictEqual({ name: 'John' });
+    // Only the manual set in `dispatchRemoteChange`
+    expect(setItemSpy).toHaveBeenCalledTimes(1);
+
+    setItemSpy.mockRestore();
+  });
+
+  it('should not apply the remote values when the synchronization is disabled', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'ls',
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    dispatchRemoteChange('profile', { name: 'John' });
+
+    expect(result.current.formValues).toStrictEqual({ name: undefined });
+  });
+});
+
+describe('Hook [use-honey-form]: Safe storage reading', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should discard the truncated query string payload and report it', () => {
+    const onStorageError = jest.fn();
+
+    const rawFormData = window.btoa(encodeURI(JSON.stringify({ name: 'Peter' }))).slice(0, 10);
+
+    window.history.replaceState(null, '', `/?profile=${rawFormData}&other=1`);
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'qs',
+        readDefaultsFromStorage: true,
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+        onStorageError,
+      }),
+    );
+
+    expect(result.current.formValues).toStrictEqual({ name: undefined });
+    expect(window.location.search).toBe('?other=1');
+    expect(onStorageError).toHaveBeenCalledWith(expect.any(Error), rawFormData);
+  });
+
+  it('should discard the malformed local storage payload', () => {
+    const onStorageError = jest.fn();
+
+    window.localStorage.setItem('profile', JSON.stringify(['Peter']));
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage: 'ls',
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+        onStorageError,
+      }),
+    );
+
+    expect(result.current.isUnfinishedFormDetected).toBeFalsy();
+    expect(window.localStorage.getItem('profile')).toBeNull();
+    expect(onStorageError).toHaveBeenCalledWith(
+      new Error('[honey-form]: The saved form data is malformed'),
+      ['Peter'],
+    );
+  });
+
+  it('should discard the malformed payload and report it once after mounting', () => {
+    const onStorageError = jest.fn();
+    const onStorageErrorCallsAtRender: number[] = [];
+
+    window.localStorage.setItem('profile', JSON.stringify(['Peter']));
+
+    renderHook(
+      () => {
+        const honeyForm = useHoneyForm<{ name: string }>({
+          name: 'profile',
+          storage: 'ls',
+          fields: {
+            name: {
+              type: 'string',
+            },
+          },
+          onStorageError,
+        });
+
+        onStorageErrorCallsAtRender.push(onStorageError.mock.calls.length);
+
+        return honeyForm;
+      },
+      { wrapper: StrictMode },
+    );
+
+    expect(onStorageErrorCallsAtRender[0]).toBe(0);
+    expect(onStorageError).toHaveBeenCalledTimes(1);
+    expect(window.localStorage.getItem('profile')).toBeNull();
+  });
+
+  it('should report the error thrown by the async storage adapter', async () => {
+    const onStorageError = jest.fn();
+
+    const storage: HoneyFormStorageAdapter = {
+      read: () => Promise.reject(createHoneyFormStorageReadError('{', new Error('Broken'))),
+      write: jest.fn(),
+      clear: jest.fn(),
+    };
+
+    renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        name: 'profile',
+        storage,
+        fields: {
+          name: {
+            type: 'string',
+          },
+        },
+        onStorageError,
+      }),
+    );
+
+    await waitFor(() => expect(onStorageError).toHaveBeenCalled());
+
+    expect(onStorageError).toHaveBeenCalledWith(
+      new Error('[honey-form]: Unable to parse the saved form data: Broken'),
+      '{',
+    );
+    expect(storage.clear).toHaveBeenCalledWith('profile');
+  });
+
+  it('should ignore unknown fields and values that do not match the field type', () => {
+    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+    window.localStorage.setItem(
+      'profile',
+      JSON.stringify({
+        savedAt: Date.now(),
+        values: { name: 'Peter', isAgreed: 'yes', tags: ['a'], city: 'Paris' },
+      }),
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string; isAgreed: boolean; tags: string[] }>({
+        name: 'profile',
+        storage: 'ls',
+        readDefaultsFromStorage: true,
+        fields: {
+          name: {
+            type: 'string',
+          },
+          isAgreed: {
+            type: 'checkbox',
+          },
+          tags: {
+            type: 'object',
+          },
+        },
+      }),
+    );
+
+    expect(result.current.formValues).toStrictEqual({
+      name: 'Peter',
+      isAgreed: undefined,
+      tags: ['a'],
+    });
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      '[honey-form]: The saved value of the field "isAgreed" does not match the field type "checkbox" and is ignored.',
+    );
+
+    consoleWarnSpy.mockRestore();
+  });
+});
+
+describe('Hook [use-honey-form]: Sync with navigation', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  const navigate = (url: string) => {
+    act(() => {
+      // The browser changes the URL before the `popstate` event is fired
+      window.history.replaceState(null, '', url);
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+  };
+
+  it('should apply the saved form values after navigation', () => {
+    const onChange = jest.fn();
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ search: string; category: string }>({
+        name: 'filters',
+        storage: createHoneyFormQueryStringStorage({ encoding: 'params' }),
+        readDefaultsFromStorage: true,
+        syncWithNavigation: true,
+        defaults: {
+          category: 'all',
+        },
+        fields: {
+          search: {
+            type: 'string',
+          },
+          category: {
+            type: 'string',
+          },
+        },
+        onChange,
+      }),
+    );
+
+    navigate('/?filters.search=honey&filters.category=food');
+
+    expect(result.current.formValues).toStrictEqual({ search: 'honey', category: 'food' });
+    expect(window.location.search).toBe('?filters.search=honey&filters.category=food');
+
+    navigate('/?filters.search=bee');
+
+    // The absent fields are reset to their default values
+    expect(result.current.formValues).toStrictEqual({ search: 'bee', category: 'all' });
+
+    navigate('/');
+
+    expect(result.current.formValues).toStrictEqual({ search: undefined, category: 'all' });
+    expect(result.current.isFormDirty).toBeFalsy();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should not apply the saved form values after navigation when the sync is disabled', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ search: string }>({
+        name: 'filters',
+        storage: 'qs',
+        fields: {
+          search: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    navigate(`/?filters=${window.btoa(encodeURI(JSON.stringify({ search: 'honey' })))}`);
+
+    expect(result.current.formValues).toStrictEqual({ search: undefined });
+  });
+});
@@ -145,6 +145,8 @@ describe('Hook [use-honey-form]: Submitting', () => {
       age: [
         {
           message: 'Only numerics are allowed',
+          code: 'invalidNumber',
+          params: { decimal: false, negative: true, maxFraction: 2 },
           type: 'invalid',
         },
       ],
@@ -160,6 +160,60 @@ describe('Hook [use-honey-form]: Nested forms', () => {
     );
   });
 
+  it('should reset the dependent child form field when its dependency is changed', () => {
+    type Item = {
+      name: string;
+      weight: number;
+    };
+
+    type Products = {
+      items: Item[];
+    };
+
+    const { result: itemsResult } = renderHook(() =>
+      useHoneyForm<Products>({
+        fields: {
+          items: {
+            type: 'nestedForms',
+            defaultValue: [],
+          },
+        },
+      }),
+    );
+
+    const { result: itemResult } = renderHook(() =>
+      useChildHoneyForm<Products, 'items', Item>({
+        formIndex: 0,
+        parentField: itemsResult.current.formFields.items,
+        fields: {
+          name: {
+            type: 'string',
+          },
+          weight: {
+            type: 'number',
+            defaultValue: 5,
+            dependsOn: (initiatorFieldName, _, { formFields }) =>
+              initiatorFieldName === 'name' && formFields.weight.value !== 0,
+          },
+        },
+      }),
+    );
+
+    act(() => itemResult.current.formFields.weight.setValue(10));
+
+    expect(itemResult.current.formValues).toStrictEqual({ name: undefined, weight: 10 });
+
+    act(() => itemResult.current.formFields.name.setValue('Banana'));
+
+    expect(itemResult.current.formValues).toStrictEqual({ name: 'Banana', weight: undefined });
+    expect(itemsResult.current.formFields.items.getChildFormsValues()).toStrictEqual([
+      {
+        name: 'Banana',
+        weight: undefined,
+      },
+    ]);
+  });
+
   it('should synchronize child form field values with the parent form field', () => {
     type Item = {
       name: string;
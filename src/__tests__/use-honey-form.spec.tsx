@@ -3,6 +3,7 @@ import { act, fireEvent, render, renderHook, waitFor } from '@testing-library/re
 
 import type { ChangeEvent } from 'react';
 import { useHoneyForm } from '../hooks';
+import { getFormDependencyGraph } from '../helpers';
 
 describe('Hook [use-honey-form]: General', () => {
   it('should be dirty after setting a new field value', () => {
@@ -594,6 +595,7 @@ describe('Hook [use-honey-form]: Fields', () => {
       {
         type: 'invalid',
         message: 'Invalid value',
+        code: 'invalid',
       },
     ]);
 
@@ -743,6 +745,7 @@ describe('Hook [use-honey-form]: Numeric field type', () => {
       {
         type: 'invalid',
         message: 'Invalid format',
+        code: 'invalidNumeric',
       },
     ]);
   });
@@ -896,6 +899,7 @@ describe('Hook [use-honey-form]: Email field type', () => {
       {
         type: 'invalid',
         message: 'Invalid email format',
+        code: 'invalidEmail',
       },
     ]);
 
@@ -905,6 +909,7 @@ describe('Hook [use-honey-form]: Email field type', () => {
       {
         type: 'invalid',
         message: 'Invalid email format',
+        code: 'invalidEmail',
       },
     ]);
 
@@ -914,6 +919,7 @@ describe('Hook [use-honey-form]: Email field type', () => {
       {
         type: 'invalid',
         message: 'Invalid email format',
+        code: 'invalidEmail',
       },
     ]);
 
@@ -923,6 +929,7 @@ describe('Hook [use-honey-form]: Email field type', () => {
       {
         type: 'invalid',
         message: 'Invalid email format',
+        code: 'invalidEmail',
       },
     ]);
 
@@ -932,6 +939,7 @@ describe('Hook [use-honey-form]: Email field type', () => {
       {
         type: 'invalid',
         message: 'Invalid email format',
+        code: 'invalidEmail',
       },
     ]);
   });
@@ -1315,6 +1323,8 @@ describe('Hook [use-honey-form]: Dependent fields', () => {
   });
 
   it('should reset cross-dependent fields when one is modified', () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+
     const { result } = renderHook(() =>
       useHoneyForm<{ address1: string; address2: string }>({
         fields: {
@@ -1330,6 +1340,10 @@ describe('Hook [use-honey-form]: Dependent fields', () => {
       }),
     );
 
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      '[honey-form]: Circular "dependsOn" dependency of the fields: address1 -> address2 -> address1. Each field in the cycle is reset only once.',
+    );
+
     act(() => {
       result.current.formFields.address1.setValue('541st Arnold');
       result.current.formFields.address2.setValue('71st Queens');
@@ -1348,9 +1362,13 @@ describe('Hook [use-honey-form]: Dependent fields', () => {
 
     expect(result.current.formFields.address2.value).toBeUndefined();
     expect(result.current.formFields.address2.props.value).toBe('');
+
+    consoleErrorSpy.mockRestore();
   });
 
   it('should clear multiple cross-dependent fields when relevant fields are modified', () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+
     const { result } = renderHook(() =>
       useHoneyForm<{ name: string; category: string; customCategory: string }>({
         fields: {
@@ -1369,6 +1387,10 @@ describe('Hook [use-honey-form]: Dependent fields', () => {
       }),
     );
 
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      '[honey-form]: Circular "dependsOn" dependency of the fields: category -> customCategory -> category. Each field in the cycle is reset only once.',
+    );
+
     act(() => {
       result.current.formFields.name.setValue('apple');
       result.current.formFields.category.setValue('fruits');
@@ -1384,6 +1406,227 @@ describe('Hook [use-honey-form]: Dependent fields', () => {
     expect(result.current.formFields.name.value).toBe('apple');
     expect(result.current.formFields.category.value).toBeUndefined();
     expect(result.current.formFields.customCategory.value).toBe('my-fruits');
+
+    consoleErrorSpy.mockRestore();
+  });
+});
+
+describe('Hook [use-honey-form]: Fields dependency graph', () => {
+  it('should build the dependency graph with the topological order and cycles', () => {
+    const dependencyGraph = getFormDependencyGraph<{
+      country: string;
+      city: string;
+      street: string;
+      zip: string;
+      note: string;
+    }>({
+      street: {
+        type: 'string',
+        dependsOn: ['city'],
+      },
+      city: {
+        type: 'string',
+        dependsOn: 'country',
+      },
+      country: {
+        type: 'string',
+      },
+      zip: {
+        type: 'string',
+        dependsOn: 'street',
+      },
+      note: {
+        type: 'string',
+        dependsOn: () => true,
+      },
+    });
+
+    expect(dependencyGraph).toStrictEqual({
+      dependents: {
+        city: ['street'],
+        country: ['city'],
+        street: ['zip'],
+      },
+      dynamicFields: ['note'],
+      order: ['note', 'country', 'city', 'street', 'zip'],
+      cycles: [],
+    });
+  });
+
+  it('should report the circular dependency and reset each field in the cycle only once', () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ first: string; second: string; third: string }>({
+        fields: {
+          first: {
+            type: 'string',
+            dependsOn: 'third',
+          },
+          second: {
+            type: 'string',
+            dependsOn: 'first',
+          },
+          third: {
+            type: 'string',
+            dependsOn: 'second',
+          },
+        },
+      }),
+    );
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      '[honey-form]: Circular "dependsOn" dependency of the fields: first -> second -> third -> first. Each field in the cycle is reset only once.',
+    );
+
+    act(() => result.current.formFields.second.setValue('2'));
+    act(() => result.current.formFields.third.setValue('3'));
+    act(() => result.current.formFields.first.setValue('1'));
+
+    expect(result.current.formValues).toStrictEqual({
+      first: '1',
+      second: undefined,
+      third: undefined,
+    });
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should not reset the fields endlessly when the dependsOn function always returns true', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string; nickname: string; title: string }>({
+        fields: {
+          name: {
+            type: 'string',
+          },
+          nickname: {
+            type: 'string',
+            defaultValue: 'Jo',
+            dependsOn: () => true,
+          },
+          title: {
+            type: 'string',
+            defaultValue: 'Mr',
+            dependsOn: () => true,
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.name.setValue('John'));
+
+    expect(result.current.formValues).toStrictEqual({
+      name: 'John',
+      nickname: undefined,
+      title: undefined,
+    });
+  });
+
+  it('should pass the field that caused the reset of the changed field to the dependsOn function', () => {
+    const dependsOn = jest.fn<boolean, [string]>(() => false);
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ city: string; address: string; apt: string; note: string }>({
+        fields: {
+          city: {
+            type: 'string',
+          },
+          address: {
+            type: 'string',
+            defaultValue: 'Main Street',
+            dependsOn: 'city',
+          },
+          apt: {
+            type: 'string',
+            defaultValue: '10A',
+            dependsOn: 'address',
+          },
+          note: {
+            type: 'string',
+            defaultValue: 'Ring twice',
+            dependsOn,
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.city.setValue('New York'));
+
+    // The `address` is reset by the `city` and the `apt` is reset by the `address`
+    expect(dependsOn.mock.calls.map(([initiatorFieldName]) => initiatorFieldName)).toStrictEqual([
+      'city',
+      'city',
+      'address',
+    ]);
+    expect(result.current.formValues).toStrictEqual({
+      city: 'New York',
+      address: undefined,
+      apt: undefined,
+      note: 'Ring twice',
+    });
+  });
+
+  it('should reset the dynamically added field when its dependency is changed', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ city: string; address?: string }>({
+        fields: {
+          city: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    act(() => {
+      result.current.addFormField('address', {
+        type: 'string',
+        defaultValue: 'Main Street',
+        dependsOn: 'city',
+      });
+    });
+
+    expect(result.current.formFields.address?.value).toBe('Main Street');
+
+    act(() => result.current.formFields.city.setValue('New York'));
+
+    expect(result.current.formValues).toStrictEqual({
+      city: 'New York',
+      address: undefined,
+    });
+  });
+
+  it('should rebuild the dependency graph when the fields are added or removed', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ city: string; address?: string }>({
+        fields: {
+          city: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    expect(result.current.formFields.city.__meta__.form.dependencyGraph?.order).toStrictEqual([
+      'city',
+    ]);
+
+    act(() => {
+      result.current.addFormField('address', {
+        type: 'string',
+        dependsOn: 'city',
+      });
+    });
+
+    expect(result.current.formFields.city.__meta__.form.dependencyGraph?.order).toStrictEqual([
+      'city',
+      'address',
+    ]);
+
+    act(() => result.current.removeFormField('address'));
+
+    expect(result.current.formFields.city.__meta__.form.dependencyGraph?.order).toStrictEqual([
+      'city',
+    ]);
   });
 });
 
@@ -131,6 +131,7 @@ describe('Hook [use-multi-honey-forms]: General', () => {
         {
           type: 'required',
           message: 'The value is required',
+          code: 'required',
         },
       ],
     });
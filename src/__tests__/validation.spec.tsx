@@ -1,10 +1,21 @@
-import type { ChangeEvent } from 'react';
+import type { ChangeEvent, FocusEvent } from 'react';
+import { StrictMode } from 'react';
 import { act, renderHook, waitFor } from '@testing-library/react';
 
 import type { CustomDateRangeForm } from '../types';
 
 import { useHoneyForm } from '../hooks';
-import { createHoneyFormDateFromValidator, createHoneyFormDateToValidator } from '../validators';
+import {
+  createHoneyFormAtLeastOneOfValidator,
+  createHoneyFormDateFromValidator,
+  createHoneyFormDateToValidator,
+  createHoneyFormMatchFieldValidator,
+  createHoneyFormRangeFromValidator,
+  createHoneyFormRangeToValidator,
+  createHoneyFormRequiredIfValidator,
+  createHoneyFormRequiredUnlessValidator,
+} from '../validators';
+import { custom, minLength, oneOf, pattern, required } from '../rules';
 
 describe('Hook [use-honey-form]: Validation', () => {
   it('should validate field value against minimum value constraint', () => {
@@ -30,6 +41,8 @@ describe('Hook [use-honey-form]: Validation', () => {
       {
         type: 'min',
         message: 'The value must be greater than or equal to 5',
+        code: 'minValue',
+        params: { min: 5, actual: 4 },
       },
     ]);
   });
@@ -57,6 +70,8 @@ describe('Hook [use-honey-form]: Validation', () => {
       {
         type: 'max',
         message: 'The value must be less than or equal to 65',
+        code: 'maxValue',
+        params: { max: 65, actual: 70 },
       },
     ]);
   });
@@ -101,6 +116,8 @@ describe('Hook [use-honey-form]: Validation', () => {
       {
         type: 'minMax',
         message: 'The value must be between 5 and 65',
+        code: 'minMaxValue',
+        params: { min: 5, max: 65, actual: 70 },
       },
     ]);
   });
@@ -129,6 +146,8 @@ describe('Hook [use-honey-form]: Validation', () => {
       {
         type: 'minMax',
         message: 'The value must be between 5 and 65',
+        code: 'minMaxValue',
+        params: { min: 5, max: 65, actual: 78 },
       },
     ]);
   });
@@ -156,6 +175,8 @@ describe('Hook [use-honey-form]: Validation', () => {
       {
         type: 'min',
         message: 'The length must be greater than or equal to 2 characters',
+        code: 'minLength',
+        params: { min: 2, actual: 1 },
       },
     ]);
   });
@@ -183,6 +204,8 @@ describe('Hook [use-honey-form]: Validation', () => {
       {
         type: 'max',
         message: 'The length must be less than or equal to 5 characters',
+        code: 'maxLength',
+        params: { max: 5, actual: 7 },
       },
     ]);
   });
@@ -210,6 +233,8 @@ describe('Hook [use-honey-form]: Validation', () => {
       {
         type: 'max',
         message: 'The length must be less than or equal to 15 characters',
+        code: 'maxLength',
+        params: { max: 15, actual: 16 },
       },
     ]);
   });
@@ -254,6 +279,8 @@ describe('Hook [use-honey-form]: Validation', () => {
       {
         type: 'minMax',
         message: 'The length must be between 1 and 5 characters',
+        code: 'minMaxLength',
+        params: { min: 1, max: 5, actual: 7 },
       },
     ]);
   });
@@ -278,6 +305,8 @@ describe('Hook [use-honey-form]: Validation', () => {
       {
         type: 'minMax',
         message: 'The length must be exactly 5 characters',
+        code: 'minMaxLength',
+        params: { min: 5, max: 5, actual: 4 },
       },
     ]);
   });
@@ -367,6 +396,7 @@ describe('Hook [use-honey-form]: Validation', () => {
       {
         type: 'required',
         message: 'The value is required',
+        code: 'required',
       },
     ]);
 
@@ -394,6 +424,7 @@ describe('Hook [use-honey-form]: Validation', () => {
       {
         type: 'required',
         message: 'The value is required',
+        code: 'required',
       },
     ]);
 
@@ -424,6 +455,7 @@ describe('Hook [use-honey-form]: Validation', () => {
       {
         type: 'required',
         message: 'This value must be filled',
+        code: 'required',
       },
     ]);
 
@@ -452,6 +484,7 @@ describe('Hook [use-honey-form]: Validation', () => {
       {
         type: 'required',
         message: 'The value is required',
+        code: 'required',
       },
     ]);
 
@@ -485,12 +518,14 @@ describe('Hook [use-honey-form]: Direct form fields validation', () => {
         {
           type: 'required',
           message: 'The value is required',
+          code: 'required',
         },
       ],
       age: [
         {
           type: 'required',
           message: 'The value is required',
+          code: 'required',
         },
       ],
     });
@@ -544,6 +579,7 @@ describe('Hook [use-honey-form]: Direct form fields validation', () => {
         {
           type: 'required',
           message: 'The value is required',
+          code: 'required',
         },
       ],
     });
@@ -574,6 +610,7 @@ describe('Hook [use-honey-form]: Direct form fields validation', () => {
         {
           type: 'required',
           message: 'The value is required',
+          code: 'required',
         },
       ],
     });
@@ -604,6 +641,14 @@ describe('Hook [use-honey-form]: Direct form fields validation', () => {
 });
 
 describe('Hook [use-honey-form]: Validator as the promise function', () => {
+  const flushAsyncValidations = () =>
+    act(
+      () =>
+        new Promise(resolve => {
+          setTimeout(resolve, 0);
+        }),
+    );
+
   it('should handle promise-based validator function (resolve)', async () => {
     const { result } = renderHook(() =>
       useHoneyForm<{ name: string }>({
@@ -665,6 +710,7 @@ describe('Hook [use-honey-form]: Validator as the promise function', () => {
         {
           type: 'invalid',
           message: 'Something went wrong!',
+          code: 'invalid',
         },
       ]),
     );
@@ -742,196 +788,2282 @@ describe('Hook [use-honey-form]: Validator as the promise function', () => {
       expect(result.current.isFormSubmitAllowed).toBeTruthy();
     });
   });
-});
 
-describe('Hook [use-honey-form]: Scheduled fields validation', () => {
-  it('schedule validation for another field inside field validator', () => {
+  it('should apply only the result of the latest value validation', async () => {
+    const pendingValidations: Record<string, (result: string | true) => void> = {};
+    const signals: Record<string, AbortSignal> = {};
+
     const { result } = renderHook(() =>
-      useHoneyForm<{ amountFrom: number; amountTo: number }>({
+      useHoneyForm<{ username: string }>({
         fields: {
-          amountFrom: {
+          username: {
             type: 'string',
-            validator: (value, { formFields, scheduleValidation }) => {
-              scheduleValidation('amountTo');
+            validator: (value, { signal }) =>
+              new Promise(resolve => {
+                pendingValidations[value] = resolve;
+                signals[value] = signal;
+              }),
+          },
+        },
+      }),
+    );
 
-              if (value > formFields.amountTo.value) {
-                return 'The `amountFrom` field value must be less than `amountTo`';
-              }
+    act(() => result.current.formFields.username.setValue('john'));
+    act(() => result.current.formFields.username.setValue('john_doe'));
 
-              return true;
-            },
-          },
-          amountTo: {
-            type: 'string',
-            validator: (value, { formFields, scheduleValidation }) => {
-              scheduleValidation('amountFrom');
+    expect(signals.john.aborted).toBeTruthy();
+    expect(signals.john_doe.aborted).toBeFalsy();
 
-              if (value < formFields.amountFrom.value) {
-                return 'The `amountTo` field value must be greater than `amountFrom`';
-              }
+    act(() => pendingValidations.john_doe(true));
+    await flushAsyncValidations();
 
-              return true;
-            },
+    expect(result.current.formFields.username.errors).toStrictEqual([]);
+    expect(result.current.formFields.username.isValidating).toBeFalsy();
+
+    // The stale validation result resolved last must not overwrite the latest result
+    act(() => pendingValidations.john('The username is taken'));
+    await flushAsyncValidations();
+
+    expect(result.current.formFields.username.errors).toStrictEqual([]);
+    expect(result.current.formFields.username.isValidating).toBeFalsy();
+  });
+
+  it('should keep the validating state until the latest value validation is finished', async () => {
+    const pendingValidations: Record<string, (result: string | true) => void> = {};
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            validator: value =>
+              new Promise(resolve => {
+                pendingValidations[value] = resolve;
+              }),
           },
         },
       }),
     );
 
-    act(() => result.current.formFields.amountFrom.setValue(5));
+    act(() => result.current.formFields.username.setValue('john'));
+    act(() => result.current.formFields.username.setValue('john_doe'));
 
-    // errors should not be shown when only one field is filled
-    expect(result.current.formErrors).toStrictEqual({});
+    act(() => pendingValidations.john(true));
+    await flushAsyncValidations();
 
-    act(() => result.current.formFields.amountTo.setValue(3));
+    expect(result.current.formFields.username.isValidating).toBeTruthy();
 
-    expect(result.current.formErrors).toStrictEqual({
-      amountFrom: [
-        {
-          type: 'invalid',
-          message: 'The `amountFrom` field value must be less than `amountTo`',
-        },
-      ],
-      amountTo: [
-        {
-          type: 'invalid',
-          message: 'The `amountTo` field value must be greater than `amountFrom`',
+    act(() => pendingValidations.john_doe('The username is taken'));
+    await flushAsyncValidations();
+
+    expect(result.current.formFields.username.isValidating).toBeFalsy();
+    expect(result.current.formFields.username.errors).toStrictEqual([
+      {
+        type: 'invalid',
+        message: 'The username is taken',
+      },
+    ]);
+  });
+
+  it('should abort the pending validation when resetting the form', async () => {
+    let resolveValidation: (result: string) => void = () => {};
+    let validationSignal: AbortSignal | undefined;
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            validator: (value, { signal }) =>
+              new Promise(resolve => {
+                resolveValidation = resolve;
+                validationSignal = signal;
+              }),
+          },
         },
-      ],
-    });
+      }),
+    );
 
-    act(() => result.current.formFields.amountFrom.setValue(2));
+    act(() => result.current.formFields.username.setValue('john'));
 
-    expect(result.current.formErrors).toStrictEqual({});
+    act(() => result.current.resetForm());
+
+    expect(validationSignal?.aborted).toBeTruthy();
+
+    act(() => resolveValidation('The username is taken'));
+    await flushAsyncValidations();
+
+    expect(result.current.formFields.username.errors).toStrictEqual([]);
+    expect(result.current.formFields.username.isValidating).toBeFalsy();
   });
 });
 
-describe('Hook [use-honey-form]: Predefined validators', () => {
-  it('should validate date range correctly', () => {
-    type DateRangeForm = CustomDateRangeForm<'fromDate', 'toDate'>;
+describe('Hook [use-honey-form]: Validation modes', () => {
+  type Props = {
+    onChange?: (e: ChangeEvent<HTMLInputElement>) => void;
+    onBlur?: (e: FocusEvent<HTMLInputElement>) => void;
+  };
+
+  const typeValue = (props: Props, value: string) =>
+    act(() => {
+      props.onChange?.({
+        target: { value },
+      } as ChangeEvent<HTMLInputElement>);
+    });
+
+  const leaveInput = (props: Props, value: string) =>
+    act(() => {
+      props.onBlur?.({
+        target: { value, readOnly: false },
+      } as FocusEvent<HTMLInputElement>);
+    });
 
+  it('should validate the field only when the form is validated in the `submit` mode', async () => {
     const { result } = renderHook(() =>
-      useHoneyForm<DateRangeForm>({
+      useHoneyForm<{ name: string }>({
         fields: {
-          fromDate: {
-            type: 'object',
-            // <DateRangeForm, 'fromDate', 'toDate'> as an example how it can be used with any additional properties like `name: string`
-            validator: createHoneyFormDateFromValidator<
-              DateRangeForm,
-              undefined,
-              'fromDate',
-              'toDate'
-            >({
-              dateToKey: 'toDate',
-            }),
-          },
-          toDate: {
-            type: 'object',
-            validator: createHoneyFormDateToValidator({
-              dateFromKey: 'fromDate',
-            }),
+          name: {
+            type: 'string',
+            mode: 'submit',
+            min: 3,
           },
         },
       }),
     );
 
-    act(() => result.current.formFields.fromDate.setValue(new Date('04/05/2031')));
+    typeValue(result.current.formFields.name.props, 'Jo');
+    leaveInput(result.current.formFields.name.props, 'Jo');
 
-    // errors should not be shown when only one field is filled
-    expect(result.current.formErrors).toStrictEqual({});
+    expect(result.current.formFields.name.errors).toStrictEqual([]);
 
-    act(() => result.current.formFields.toDate.setValue(new Date('03/04/2030')));
+    expect(await act(() => result.current.validateForm())).toBeFalsy();
 
-    expect(result.current.formErrors).toStrictEqual({
-      fromDate: [
-        {
-          type: 'invalid',
-          message: '"Date From" should be equal or less than "Date To"',
-        },
-      ],
-      toDate: [
-        {
-          type: 'invalid',
-          message: '"Date To" should be equal or greater than "Date From"',
+    expect(result.current.formFields.name.errors).toHaveLength(1);
+  });
+
+  it('should validate the field on blur firstly and then on change in the `touched` mode', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        fields: {
+          name: {
+            type: 'string',
+            mode: 'touched',
+            min: 3,
+          },
         },
-      ],
-    });
+      }),
+    );
 
-    act(() => result.current.formFields.toDate.setValue(new Date('04/05/2031')));
+    typeValue(result.current.formFields.name.props, 'Jo');
 
-    expect(result.current.formErrors).toStrictEqual({});
+    expect(result.current.formFields.name.errors).toStrictEqual([]);
+
+    leaveInput(result.current.formFields.name.props, 'Jo');
+
+    expect(result.current.formFields.name.errors).toHaveLength(1);
+
+    typeValue(result.current.formFields.name.props, 'Joe');
+
+    expect(result.current.formFields.name.errors).toStrictEqual([]);
+
+    typeValue(result.current.formFields.name.props, 'J');
+
+    expect(result.current.formFields.name.errors).toHaveLength(1);
   });
 
-  it('should validate date range with min/max date limits', () => {
-    type DateRangeForm = CustomDateRangeForm<'fromDate', 'toDate'>;
+  it('should re-validate the erred field on blur when the `revalidateMode` is `blur`', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ name: string }>({
+        fields: {
+          name: {
+            type: 'string',
+            revalidateMode: 'blur',
+            min: 3,
+          },
+        },
+      }),
+    );
 
-    const MIN_DATE = new Date('04/05/2031');
-    const MAX_DATE = new Date('04/05/2032');
+    typeValue(result.current.formFields.name.props, 'Jo');
+
+    expect(result.current.formFields.name.errors).toHaveLength(1);
+
+    typeValue(result.current.formFields.name.props, 'Joe');
+
+    // The error is kept until the focus leaves the input
+    expect(result.current.formFields.name.errors).toHaveLength(1);
+
+    leaveInput(result.current.formFields.name.props, 'Joe');
+
+    expect(result.current.formFields.name.errors).toStrictEqual([]);
+  });
 
+  it('should use the form modes as the defaults of the fields modes', async () => {
     const { result } = renderHook(() =>
-      useHoneyForm<DateRangeForm>({
+      useHoneyForm<{ name: string; nickname: string }>({
         fields: {
-          fromDate: {
-            type: 'object',
-            validator: createHoneyFormDateFromValidator({
-              dateToKey: 'toDate',
-              minDate: MIN_DATE,
-            }),
+          name: {
+            type: 'string',
+            min: 3,
           },
-          toDate: {
-            type: 'object',
-            validator: createHoneyFormDateToValidator({
-              dateFromKey: 'fromDate',
-              maxDate: MAX_DATE,
-            }),
+          nickname: {
+            type: 'string',
+            mode: 'change',
+            min: 3,
           },
         },
+        mode: 'submit',
+        revalidateMode: 'submit',
       }),
     );
 
-    // Set valid from date
-    act(() => result.current.formFields.fromDate.setValue(MIN_DATE));
+    typeValue(result.current.formFields.name.props, 'Jo');
+    typeValue(result.current.formFields.nickname.props, 'Jo');
 
-    expect(result.current.formErrors).toStrictEqual({});
+    expect(result.current.formFields.name.errors).toStrictEqual([]);
+    expect(result.current.formFields.nickname.errors).toHaveLength(1);
 
-    // Set valid to date
-    act(() => result.current.formFields.toDate.setValue(new Date('06/01/2031')));
+    await act(() => result.current.validateForm());
 
-    expect(result.current.formErrors).toStrictEqual({});
+    expect(result.current.formFields.name.errors).toHaveLength(1);
 
-    // Set invalid from date (< min date)
-    act(() => {
-      result.current.formFields.fromDate.setValue(new Date('04/04/2031'));
-    });
+    typeValue(result.current.formFields.name.props, 'Joe');
 
-    expect(result.current.formErrors).toStrictEqual({
-      fromDate: [
-        {
-          type: 'invalid',
-          message: '"Date From" should be equal or less than "Date To"',
+    // The erred field is not re-validated until the form is validated again
+    expect(result.current.formFields.name.errors).toHaveLength(1);
+
+    expect(await act(() => result.current.validateForm())).toBeFalsy();
+
+    expect(result.current.formFields.name.errors).toStrictEqual([]);
+  });
+
+  it('should not re-validate the field with only warnings on change in the submit mode', async () => {
+    const validator = jest.fn((value: string | undefined) =>
+      value?.endsWith('@gmail.com')
+        ? [
+            {
+              type: 'invalid',
+              message: 'This looks like a personal email',
+              severity: 'warning' as const,
+            },
+          ]
+        : true,
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ email: string }>({
+        fields: {
+          email: {
+            type: 'string',
+            mode: 'submit',
+            validator,
+          },
         },
-      ],
-    });
+      }),
+    );
 
-    // Set valid from date
-    act(() => result.current.formFields.fromDate.setValue(new Date('05/01/2031')));
+    typeValue(result.current.formFields.email.props, 'john@gmail.com');
 
-    expect(result.current.formErrors).toStrictEqual({});
+    expect(validator).not.toHaveBeenCalled();
 
-    // Set invalid to date (> max date)
-    act(() => result.current.formFields.toDate.setValue(new Date('04/06/2032')));
+    await act(() => result.current.validateForm());
 
+    expect(validator).toHaveBeenCalledTimes(1);
     expect(result.current.formErrors).toStrictEqual({
-      toDate: [
-        {
-          type: 'invalid',
-          message: '"Date To" should be equal or greater than "Date From"',
-        },
+      email: [
+        { type: 'invalid', message: 'This looks like a personal email', severity: 'warning' },
       ],
     });
 
-    // Set valid to date
-    act(() => result.current.formFields.toDate.setValue(MAX_DATE));
+    typeValue(result.current.formFields.email.props, 'john@company.com');
 
-    expect(result.current.formErrors).toStrictEqual({});
+    expect(validator).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Hook [use-honey-form]: Debounced field validation', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const typeValue = (
+    props: { onChange?: (e: ChangeEvent<HTMLInputElement>) => void },
+    value: string,
+  ) =>
+    act(() => {
+      props.onChange?.({
+        target: { value },
+      } as ChangeEvent<HTMLInputElement>);
+    });
+
+  it('should validate the field value after the user stops typing', () => {
+    const validator = jest.fn((value: string | undefined) =>
+      value && value.length < 5 ? 'The username is too short' : true,
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            validationDebounce: 300,
+            validator,
+          },
+        },
+      }),
+    );
+
+    typeValue(result.current.formFields.username.props, 'j');
+    typeValue(result.current.formFields.username.props, 'jo');
+    typeValue(result.current.formFields.username.props, 'joh');
+
+    expect(validator).not.toHaveBeenCalled();
+    expect(result.current.formFields.username.value).toBe('joh');
+    expect(result.current.formFields.username.isValidating).toBeTruthy();
+    expect(result.current.formFields.username.props['aria-busy']).toBeTruthy();
+    expect(result.current.isFormSubmitAllowed).toBeFalsy();
+
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(validator).toHaveBeenCalledTimes(1);
+    expect(validator).toHaveBeenCalledWith('joh', expect.any(Object));
+
+    expect(result.current.formFields.username.isValidating).toBeFalsy();
+    expect(result.current.formFields.username.errors).toStrictEqual([
+      {
+        type: 'invalid',
+        message: 'The username is too short',
+      },
+    ]);
+  });
+
+  it('should validate the field immediately when the focus leaves the input', () => {
+    const validator = jest.fn(() => true);
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            validationDebounce: 300,
+            validator,
+          },
+        },
+      }),
+    );
+
+    typeValue(result.current.formFields.username.props, 'john');
+
+    act(() => {
+      result.current.formFields.username.props.onBlur?.({
+        target: { value: 'john', readOnly: false },
+      } as FocusEvent<HTMLInputElement>);
+    });
+
+    expect(validator).toHaveBeenCalledTimes(1);
+    expect(result.current.formFields.username.isValidating).toBeFalsy();
+
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    // The flushed validation is not run again
+    expect(validator).toHaveBeenCalledTimes(1);
+  });
+
+  it('should schedule a single debounced validation in the strict mode', () => {
+    const validator = jest.fn((value: string | undefined) => Boolean(value));
+
+    const { result } = renderHook(
+      () =>
+        useHoneyForm<{ username: string }>({
+          fields: {
+            username: {
+              type: 'string',
+              validationDebounce: 300,
+              validator,
+            },
+          },
+        }),
+      { wrapper: StrictMode },
+    );
+
+    typeValue(result.current.formFields.username.props, 'jo');
+    typeValue(result.current.formFields.username.props, 'john');
+
+    expect(jest.getTimerCount()).toBe(1);
+
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    // Only the latest value is validated
+    expect(validator).toHaveBeenCalled();
+    expect(validator).not.toHaveBeenCalledWith('jo', expect.any(Object));
+    expect(jest.getTimerCount()).toBe(0);
+    expect(result.current.formFields.username.isValidating).toBeFalsy();
+  });
+
+  it('should not validate the field after the debounce when the change does not trigger the validation', () => {
+    const validator = jest.fn(() => true);
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            mode: 'submit',
+            validationDebounce: 300,
+            validator,
+          },
+        },
+      }),
+    );
+
+    typeValue(result.current.formFields.username.props, 'john');
+
+    expect(result.current.formFields.username.isValidating).toBeFalsy();
+
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    act(() => {
+      result.current.formFields.username.props.onBlur?.({
+        target: { value: 'john', readOnly: false },
+      } as FocusEvent<HTMLInputElement>);
+    });
+
+    expect(validator).not.toHaveBeenCalled();
+  });
+
+  it('should run the pending validation when submitting the form', async () => {
+    const validator = jest.fn((value: string | undefined) =>
+      value === 'john' ? 'The username is taken' : true,
+    );
+    const onSubmit = jest.fn();
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            validationDebounce: 300,
+            validator,
+          },
+        },
+        onSubmit,
+      }),
+    );
+
+    typeValue(result.current.formFields.username.props, 'john');
+
+    await act(() => result.current.submitForm());
+
+    expect(validator).toHaveBeenCalledTimes(1);
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(result.current.formFields.username.isValidating).toBeFalsy();
+    expect(result.current.formFields.username.errors).toStrictEqual([
+      {
+        type: 'invalid',
+        message: 'The username is taken',
+      },
+    ]);
+
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(validator).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Hook [use-honey-form]: Field validation cache', () => {
+  const flushAsyncValidations = () =>
+    act(
+      () =>
+        new Promise(resolve => {
+          setTimeout(resolve, 0);
+        }),
+    );
+
+  it('should resolve the previously validated values from the cache', async () => {
+    const validator = jest.fn((value: string | undefined) =>
+      Promise.resolve(value === 'john' ? 'The username is taken' : true),
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            validationCache: true,
+            validator,
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.username.setValue('john'));
+    await flushAsyncValidations();
+
+    act(() => result.current.formFields.username.setValue('johnny'));
+    await flushAsyncValidations();
+
+    expect(validator).toHaveBeenCalledTimes(2);
+
+    act(() => result.current.formFields.username.setValue('john'));
+
+    // The cached result is applied immediately
+    expect(validator).toHaveBeenCalledTimes(2);
+    expect(result.current.formFields.username.isValidating).toBeFalsy();
+    expect(result.current.formFields.username.errors).toStrictEqual([
+      {
+        type: 'invalid',
+        message: 'The username is taken',
+      },
+    ]);
+
+    expect(await act(() => result.current.validateForm())).toBeFalsy();
+
+    expect(validator).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use the custom cache key and expire the cached results', async () => {
+    jest.useFakeTimers({ doNotFake: ['setTimeout'] });
+
+    const validator = jest.fn(() => Promise.resolve(true));
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            validationCache: {
+              ttl: 60_000,
+              key: value => value?.toLowerCase() ?? '',
+            },
+            validator,
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.username.setValue('John'));
+    await flushAsyncValidations();
+
+    act(() => result.current.formFields.username.setValue('JOHN'));
+    await flushAsyncValidations();
+
+    expect(validator).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(60_000);
+
+    act(() => result.current.formFields.username.setValue('john'));
+    await flushAsyncValidations();
+
+    expect(validator).toHaveBeenCalledTimes(2);
+
+    jest.useRealTimers();
+  });
+
+  it('should remove the least recently used results when the cache is full', async () => {
+    const validator = jest.fn(() => Promise.resolve(true));
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            validationCache: { maxSize: 2 },
+            validator,
+          },
+        },
+      }),
+    );
+
+    const setUsername = async (username: string) => {
+      act(() => result.current.formFields.username.setValue(username));
+      await flushAsyncValidations();
+    };
+
+    await setUsername('anna');
+    await setUsername('john');
+    // Using the cached result makes "anna" the recently used result
+    await setUsername('anna');
+    await setUsername('peter');
+
+    expect(validator).toHaveBeenCalledTimes(3);
+
+    await setUsername('anna');
+
+    expect(validator).toHaveBeenCalledTimes(3);
+
+    await setUsername('john');
+
+    expect(validator).toHaveBeenCalledTimes(4);
+  });
+
+  it('should invalidate the cache when the form context is changed', async () => {
+    const validator = jest.fn(() => Promise.resolve(true));
+
+    const { result, rerender } = renderHook(
+      ({ context }: { context: { country: string } }) =>
+        useHoneyForm<{ vat: string }, { country: string }>({
+          fields: {
+            vat: {
+              type: 'string',
+              validationCache: true,
+              validator,
+            },
+          },
+          context,
+        }),
+      {
+        initialProps: { context: { country: 'DE' } },
+      },
+    );
+
+    act(() => result.current.formFields.vat.setValue('123456789'));
+    await flushAsyncValidations();
+
+    await act(() => result.current.validateForm());
+
+    expect(validator).toHaveBeenCalledTimes(1);
+
+    rerender({ context: { country: 'FR' } });
+
+    await act(() => result.current.validateForm());
+
+    expect(validator).toHaveBeenCalledTimes(2);
+    expect(validator).toHaveBeenLastCalledWith(
+      '123456789',
+      expect.objectContaining({ formContext: { country: 'FR' } }),
+    );
+  });
+});
+
+describe('Hook [use-honey-form]: Async validation timeout and concurrency', () => {
+  const flushAsyncValidations = () =>
+    act(
+      () =>
+        new Promise(resolve => {
+          setTimeout(resolve, 0);
+        }),
+    );
+
+  it('should add the timeout error when the field validator is not settled in time', async () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            asyncValidationTimeout: 10,
+            validator: () => new Promise<boolean>(() => {}),
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.username.setValue('john'));
+
+    expect(result.current.formFields.username.isValidating).toBeTruthy();
+
+    await waitFor(() => expect(result.current.formFields.username.isValidating).toBeFalsy());
+
+    expect(result.current.formErrors).toStrictEqual({
+      username: [
+        {
+          type: 'timeout',
+          message: 'The validation took too long',
+          code: 'timeout',
+          params: { timeout: 10 },
+        },
+      ],
+    });
+  });
+
+  it('should use the form async validation timeout and the custom timeout error message', async () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            errorMessages: {
+              timeout: 'Could not check the username',
+            },
+            validator: () => new Promise<boolean>(() => {}),
+          },
+        },
+        asyncValidationTimeout: 10,
+      }),
+    );
+
+    expect(await act(() => result.current.validateForm())).toBeFalsy();
+
+    expect(result.current.formErrors).toStrictEqual({
+      username: [
+        {
+          type: 'timeout',
+          message: 'Could not check the username',
+          code: 'timeout',
+          params: { timeout: 10 },
+        },
+      ],
+    });
+  });
+
+  it('should abort the validator signal when the validation times out', async () => {
+    const signals: AbortSignal[] = [];
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            asyncValidationTimeout: 10,
+            validator: (_, { signal }) => {
+              signals.push(signal);
+
+              return new Promise<boolean>(() => {});
+            },
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.username.setValue('john'));
+
+    expect(signals[0].aborted).toBeFalsy();
+
+    await waitFor(() => expect(result.current.formFields.username.isValidating).toBeFalsy());
+
+    expect(signals[0].aborted).toBeTruthy();
+
+    expect(await act(() => result.current.validateForm())).toBeFalsy();
+
+    expect(signals[1].aborted).toBeTruthy();
+    expect(result.current.formErrors.username).toMatchObject([{ type: 'timeout' }]);
+  });
+
+  it('should use the validator result when it is settled in time', async () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            asyncValidationTimeout: 1000,
+            validator: () => Promise.resolve('The username is taken'),
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.username.setValue('john'));
+
+    await flushAsyncValidations();
+
+    expect(result.current.formErrors).toStrictEqual({
+      username: [{ type: 'invalid', message: 'The username is taken' }],
+    });
+  });
+
+  it('should limit the number of concurrent async validations when validating the form', async () => {
+    let pendingValidations = 0;
+    let maxPendingValidations = 0;
+
+    const validator = jest.fn(
+      () =>
+        new Promise<boolean>(resolve => {
+          pendingValidations += 1;
+          maxPendingValidations = Math.max(maxPendingValidations, pendingValidations);
+
+          setTimeout(() => {
+            pendingValidations -= 1;
+            resolve(true);
+          }, 5);
+        }),
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string; email: string; nickname: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            validator,
+          },
+          email: {
+            type: 'string',
+            validator,
+          },
+          nickname: {
+            type: 'string',
+            validator,
+          },
+        },
+        maxConcurrentAsyncValidations: 2,
+      }),
+    );
+
+    expect(await act(() => result.current.validateForm())).toBeTruthy();
+
+    expect(validator).toHaveBeenCalledTimes(3);
+    expect(maxPendingValidations).toBe(2);
+  });
+
+  it('should limit only the async validators when the form has sync and async fields', async () => {
+    let pendingValidations = 0;
+    let maxPendingValidations = 0;
+
+    const asyncValidator = jest.fn(
+      (value: string) =>
+        new Promise<boolean | string>(resolve => {
+          pendingValidations += 1;
+          maxPendingValidations = Math.max(maxPendingValidations, pendingValidations);
+
+          setTimeout(() => {
+            pendingValidations -= 1;
+            resolve(value === 'taken' ? 'The value is taken' : true);
+          }, 5);
+        }),
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string; age: number; email: string; nickname: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            defaultValue: 'taken',
+            validator: asyncValidator,
+          },
+          age: {
+            type: 'number',
+            required: true,
+          },
+          email: {
+            type: 'string',
+            defaultValue: 'john',
+            validator: value => value.includes('@') || 'Invalid email',
+          },
+          nickname: {
+            type: 'string',
+            defaultValue: 'johnny',
+            validator: asyncValidator,
+          },
+        },
+        maxConcurrentAsyncValidations: 1,
+      }),
+    );
+
+    expect(await act(() => result.current.validateForm())).toBeFalsy();
+
+    expect(asyncValidator).toHaveBeenCalledTimes(2);
+    expect(maxPendingValidations).toBe(1);
+
+    expect(result.current.formErrors).toStrictEqual({
+      username: [{ type: 'invalid', message: 'The value is taken' }],
+      age: [{ type: 'required', message: 'The value is required', code: 'required' }],
+      email: [{ type: 'invalid', message: 'Invalid email' }],
+    });
+  });
+});
+
+describe('Hook [use-honey-form]: Scheduled fields validation', () => {
+  it('schedule validation for another field inside field validator', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ amountFrom: number; amountTo: number }>({
+        fields: {
+          amountFrom: {
+            type: 'string',
+            validator: (value, { formFields, scheduleValidation }) => {
+              scheduleValidation('amountTo');
+
+              if (value > formFields.amountTo.value) {
+                return 'The `amountFrom` field value must be less than `amountTo`';
+              }
+
+              return true;
+            },
+          },
+          amountTo: {
+            type: 'string',
+            validator: (value, { formFields, scheduleValidation }) => {
+              scheduleValidation('amountFrom');
+
+              if (value < formFields.amountFrom.value) {
+                return 'The `amountTo` field value must be greater than `amountFrom`';
+              }
+
+              return true;
+            },
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.amountFrom.setValue(5));
+
+    // errors should not be shown when only one field is filled
+    expect(result.current.formErrors).toStrictEqual({});
+
+    act(() => result.current.formFields.amountTo.setValue(3));
+
+    expect(result.current.formErrors).toStrictEqual({
+      amountFrom: [
+        {
+          type: 'invalid',
+          message: 'The `amountFrom` field value must be less than `amountTo`',
+        },
+      ],
+      amountTo: [
+        {
+          type: 'invalid',
+          message: 'The `amountTo` field value must be greater than `amountFrom`',
+        },
+      ],
+    });
+
+    act(() => result.current.formFields.amountFrom.setValue(2));
+
+    expect(result.current.formErrors).toStrictEqual({});
+  });
+});
+
+describe('Hook [use-honey-form]: Predefined validators', () => {
+  it('should validate date range correctly', () => {
+    type DateRangeForm = CustomDateRangeForm<'fromDate', 'toDate'>;
+
+    const { result } = renderHook(() =>
+      useHoneyForm<DateRangeForm>({
+        fields: {
+          fromDate: {
+            type: 'object',
+            // <DateRangeForm, 'fromDate', 'toDate'> as an example how it can be used with any additional properties like `name: string`
+            validator: createHoneyFormDateFromValidator<
+              DateRangeForm,
+              undefined,
+              'fromDate',
+              'toDate'
+            >({
+              dateToKey: 'toDate',
+            }),
+          },
+          toDate: {
+            type: 'object',
+            validator: createHoneyFormDateToValidator({
+              dateFromKey: 'fromDate',
+            }),
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.fromDate.setValue(new Date('04/05/2031')));
+
+    // errors should not be shown when only one field is filled
+    expect(result.current.formErrors).toStrictEqual({});
+
+    act(() => result.current.formFields.toDate.setValue(new Date('03/04/2030')));
+
+    expect(result.current.formErrors).toStrictEqual({
+      fromDate: [
+        {
+          type: 'invalid',
+          message: '"Date From" should be equal or less than "Date To"',
+        },
+      ],
+      toDate: [
+        {
+          type: 'invalid',
+          message: '"Date To" should be equal or greater than "Date From"',
+        },
+      ],
+    });
+
+    act(() => result.current.formFields.toDate.setValue(new Date('04/05/2031')));
+
+    expect(result.current.formErrors).toStrictEqual({});
+  });
+
+  it('should validate date range with min/max date limits', () => {
+    type DateRangeForm = CustomDateRangeForm<'fromDate', 'toDate'>;
+
+    const MIN_DATE = new Date('04/05/2031');
+    const MAX_DATE = new Date('04/05/2032');
+
+    const { result } = renderHook(() =>
+      useHoneyForm<DateRangeForm>({
+        fields: {
+          fromDate: {
+            type: 'object',
+            validator: createHoneyFormDateFromValidator({
+              dateToKey: 'toDate',
+              minDate: MIN_DATE,
+            }),
+          },
+          toDate: {
+            type: 'object',
+            validator: createHoneyFormDateToValidator({
+              dateFromKey: 'fromDate',
+              maxDate: MAX_DATE,
+            }),
+          },
+        },
+      }),
+    );
+
+    // Set valid from date
+    act(() => result.current.formFields.fromDate.setValue(MIN_DATE));
+
+    expect(result.current.formErrors).toStrictEqual({});
+
+    // Set valid to date
+    act(() => result.current.formFields.toDate.setValue(new Date('06/01/2031')));
+
+    expect(result.current.formErrors).toStrictEqual({});
+
+    // Set invalid from date (< min date)
+    act(() => {
+      result.current.formFields.fromDate.setValue(new Date('04/04/2031'));
+    });
+
+    expect(result.current.formErrors).toStrictEqual({
+      fromDate: [
+        {
+          type: 'invalid',
+          message: '"Date From" should be equal or less than "Date To"',
+        },
+      ],
+    });
+
+    // Set valid from date
+    act(() => result.current.formFields.fromDate.setValue(new Date('05/01/2031')));
+
+    expect(result.current.formErrors).toStrictEqual({});
+
+    // Set invalid to date (> max date)
+    act(() => result.current.formFields.toDate.setValue(new Date('04/06/2032')));
+
+    expect(result.current.formErrors).toStrictEqual({
+      toDate: [
+        {
+          type: 'invalid',
+          message: '"Date To" should be equal or greater than "Date From"',
+        },
+      ],
+    });
+
+    // Set valid to date
+    act(() => result.current.formFields.toDate.setValue(MAX_DATE));
+
+    expect(result.current.formErrors).toStrictEqual({});
+  });
+
+  it('should validate the field value matches another field value', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ password: string; confirmPassword: string }>({
+        fields: {
+          password: {
+            type: 'string',
+          },
+          confirmPassword: {
+            type: 'string',
+            validator: createHoneyFormMatchFieldValidator({
+              fieldKey: 'password',
+              errorMsg: 'The passwords do not match',
+            }),
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.password.setValue('secret'));
+    act(() => result.current.formFields.confirmPassword.setValue('secre'));
+
+    expect(result.current.formErrors).toStrictEqual({
+      confirmPassword: [
+        {
+          type: 'invalid',
+          message: 'The passwords do not match',
+          code: 'mismatch',
+          params: { field: 'password' },
+        },
+      ],
+    });
+
+    act(() => result.current.formFields.confirmPassword.setValue('secret'));
+
+    expect(result.current.formErrors).toStrictEqual({});
+  });
+
+  it('should require the field value depending on another field value', async () => {
+    type CompanyForm = {
+      company: string;
+      vatNumber: string;
+      email: string;
+      phone: string;
+    };
+
+    const { result } = renderHook(() =>
+      useHoneyForm<CompanyForm>({
+        fields: {
+          company: {
+            type: 'string',
+          },
+          vatNumber: {
+            type: 'string',
+            validator: createHoneyFormRequiredIfValidator({
+              fieldKey: 'company',
+            }),
+          },
+          email: {
+            type: 'string',
+            validator: createHoneyFormRequiredUnlessValidator({
+              fieldKey: 'phone',
+            }),
+          },
+          phone: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    await act(() => result.current.validateForm());
+
+    expect(result.current.formErrors).toStrictEqual({
+      email: [
+        {
+          type: 'required',
+          message: 'The value is required',
+          code: 'required',
+        },
+      ],
+    });
+
+    act(() => result.current.formFields.company.setValue('Acme'));
+    act(() => result.current.formFields.phone.setValue('+1234567890'));
+
+    await act(() => result.current.validateForm());
+
+    expect(result.current.formErrors).toStrictEqual({
+      vatNumber: [
+        {
+          type: 'required',
+          message: 'The value is required',
+          code: 'required',
+        },
+      ],
+    });
+  });
+
+  it('should pass the clean value of the other field to the required condition', async () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ plan: string; approvalCode: string }>({
+        fields: {
+          plan: {
+            type: 'string',
+            formatter: value => value?.toUpperCase(),
+          },
+          approvalCode: {
+            type: 'string',
+            validator: createHoneyFormRequiredIfValidator({
+              fieldKey: 'plan',
+              condition: plan => plan === 'enterprise',
+              errorMsg: 'The approval code is required for the enterprise plan',
+            }),
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.plan.setValue('enterprise'));
+
+    expect(result.current.formFields.plan.value).toBe('ENTERPRISE');
+
+    await act(() => result.current.validateForm());
+
+    expect(result.current.formErrors).toStrictEqual({
+      approvalCode: [
+        {
+          type: 'required',
+          message: 'The approval code is required for the enterprise plan',
+          code: 'required',
+        },
+      ],
+    });
+  });
+
+  it('should validate at least one field of the group has a value', async () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ email: string; phone: string }>({
+        fields: {
+          email: {
+            type: 'string',
+            validator: createHoneyFormAtLeastOneOfValidator({
+              fieldKeys: ['phone'],
+            }),
+          },
+          phone: {
+            type: 'string',
+            validator: createHoneyFormAtLeastOneOfValidator({
+              fieldKeys: ['email'],
+            }),
+          },
+        },
+      }),
+    );
+
+    await act(() => result.current.validateForm());
+
+    expect(result.current.formErrors).toStrictEqual({
+      email: [
+        {
+          type: 'required',
+          message: 'At least one of the values is required',
+          code: 'atLeastOneOf',
+          params: { fields: 'phone' },
+        },
+      ],
+      phone: [
+        {
+          type: 'required',
+          message: 'At least one of the values is required',
+          code: 'atLeastOneOf',
+          params: { fields: 'email' },
+        },
+      ],
+    });
+
+    // The email validation is scheduled by the phone validator
+    act(() => result.current.formFields.phone.setValue('+1234567890'));
+
+    expect(result.current.formErrors).toStrictEqual({});
+  });
+
+  it('should validate number range correctly', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ minAge: number; maxAge: number }>({
+        fields: {
+          minAge: {
+            type: 'number',
+            validator: createHoneyFormRangeFromValidator({
+              valueType: 'number',
+              rangeToKey: 'maxAge',
+              min: 18,
+            }),
+          },
+          maxAge: {
+            type: 'number',
+            validator: createHoneyFormRangeToValidator({
+              valueType: 'number',
+              rangeFromKey: 'minAge',
+            }),
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.minAge.setValue(30));
+    act(() => result.current.formFields.maxAge.setValue(25));
+
+    expect(result.current.formErrors).toStrictEqual({
+      minAge: [
+        {
+          type: 'invalid',
+          message: '"From" value should be equal or less than "To" value',
+          code: 'invalidRange',
+          params: { field: 'maxAge' },
+        },
+      ],
+      maxAge: [
+        {
+          type: 'invalid',
+          message: '"To" value should be equal or greater than "From" value',
+          code: 'invalidRange',
+          params: { field: 'minAge' },
+        },
+      ],
+    });
+
+    // The value below `min` is not the range error
+    act(() => result.current.formFields.minAge.setValue(16));
+
+    expect(result.current.formErrors).toStrictEqual({
+      minAge: [
+        {
+          type: 'min',
+          message: 'The value must be greater than or equal to 18',
+          code: 'minValue',
+          params: { min: 18, actual: 16 },
+        },
+      ],
+    });
+
+    act(() => result.current.formFields.minAge.setValue(20));
+
+    expect(result.current.formErrors).toStrictEqual({});
+  });
+
+  it('should validate ISO date range correctly', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ checkIn: string; checkOut: string }>({
+        fields: {
+          checkIn: {
+            type: 'string',
+            validator: createHoneyFormRangeFromValidator({
+              valueType: 'isoDate',
+              rangeToKey: 'checkOut',
+              inclusiveRange: false,
+              errorMsg: 'The check-in should be before the check-out',
+            }),
+          },
+          checkOut: {
+            type: 'string',
+            validator: createHoneyFormRangeToValidator({
+              valueType: 'isoDate',
+              rangeFromKey: 'checkIn',
+              inclusiveRange: false,
+              errorMsg: 'The check-out should be after the check-in',
+            }),
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.checkIn.setValue('2031-04-05'));
+    act(() => result.current.formFields.checkOut.setValue('2031-04-05'));
+
+    expect(result.current.formErrors).toStrictEqual({
+      checkIn: [
+        {
+          type: 'invalid',
+          message: 'The check-in should be before the check-out',
+          code: 'invalidRange',
+          params: { field: 'checkOut' },
+        },
+      ],
+      checkOut: [
+        {
+          type: 'invalid',
+          message: 'The check-out should be after the check-in',
+          code: 'invalidRange',
+          params: { field: 'checkIn' },
+        },
+      ],
+    });
+
+    act(() => result.current.formFields.checkOut.setValue('2031-04-10'));
+
+    expect(result.current.formErrors).toStrictEqual({});
+  });
+
+  it('should report the invalid and out of bounds ISO dates with the distinct errors', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ checkIn: string; checkOut: string }>({
+        fields: {
+          checkIn: {
+            type: 'string',
+            validator: createHoneyFormRangeFromValidator({
+              valueType: 'isoDate',
+              rangeToKey: 'checkOut',
+              min: '2031-01-01',
+              errorMsg: 'The check-in should be before the check-out',
+            }),
+          },
+          checkOut: {
+            type: 'string',
+            validator: createHoneyFormRangeToValidator({
+              valueType: 'isoDate',
+              rangeFromKey: 'checkIn',
+              max: '2031-12-31',
+            }),
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.checkOut.setValue('2031-04-10'));
+    act(() => result.current.formFields.checkIn.setValue('tomorrow'));
+
+    // The invalid "From" value does not make the "To" value invalid
+    expect(result.current.formErrors).toStrictEqual({
+      checkIn: [
+        {
+          type: 'invalid',
+          message: 'The value is not a valid date',
+          code: 'invalidRangeValue',
+          params: { valueType: 'isoDate', actual: 'tomorrow' },
+        },
+      ],
+    });
+
+    act(() => result.current.formFields.checkIn.setValue('2030-12-31'));
+
+    expect(result.current.formErrors).toStrictEqual({
+      checkIn: [
+        {
+          type: 'min',
+          message: 'The value must be greater than or equal to 2031-01-01',
+          code: 'minValue',
+          params: { min: '2031-01-01', actual: '2030-12-31' },
+        },
+      ],
+    });
+
+    act(() => result.current.formFields.checkIn.setValue('2031-04-05'));
+    act(() => result.current.formFields.checkOut.setValue('2032-01-10'));
+
+    expect(result.current.formErrors).toStrictEqual({
+      checkOut: [
+        {
+          type: 'max',
+          message: 'The value must be less than or equal to 2031-12-31',
+          code: 'maxValue',
+          params: { max: '2031-12-31', actual: '2032-01-10' },
+        },
+      ],
+    });
+  });
+
+  it('should match the clean values of the fields with formatters', () => {
+    const formatter = (value: string | undefined) => value?.replace(/(\d{4})(?=\d)/g, '$1 ');
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ cardNumber: string; confirmCardNumber: string }>({
+        fields: {
+          cardNumber: {
+            type: 'string',
+            formatter,
+          },
+          confirmCardNumber: {
+            type: 'string',
+            formatter,
+            revalidateWith: 'cardNumber',
+            validator: createHoneyFormMatchFieldValidator({
+              fieldKey: 'cardNumber',
+            }),
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.cardNumber.setValue('41111111'));
+    act(() => result.current.formFields.confirmCardNumber.setValue('41111111'));
+
+    expect(result.current.formFields.confirmCardNumber.value).toBe('4111 1111');
+    expect(result.current.formErrors).toStrictEqual({});
+
+    act(() => result.current.formFields.cardNumber.setValue('41111112'));
+
+    expect(result.current.formErrors).toStrictEqual({
+      confirmCardNumber: [
+        {
+          type: 'invalid',
+          message: 'The values do not match',
+          code: 'mismatch',
+          params: { field: 'cardNumber' },
+        },
+      ],
+    });
+  });
+});
+
+describe('Hook [use-honey-form]: Re-validation with other fields', () => {
+  it('should re-validate the field when the listed field is changed', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ password: string; confirmPassword: string }>({
+        fields: {
+          password: {
+            type: 'string',
+          },
+          confirmPassword: {
+            type: 'string',
+            required: true,
+            revalidateWith: 'password',
+            validator: createHoneyFormMatchFieldValidator({
+              fieldKey: 'password',
+            }),
+          },
+        },
+      }),
+    );
+
+    // The confirmation is not changed by the user yet
+    act(() => result.current.formFields.password.setValue('secret'));
+
+    expect(result.current.formErrors).toStrictEqual({});
+
+    act(() => result.current.formFields.confirmPassword.setValue('secret'));
+    act(() => result.current.formFields.password.setValue('secret2'));
+
+    expect(result.current.formValues.confirmPassword).toBe('secret');
+    expect(result.current.formErrors).toStrictEqual({
+      confirmPassword: [
+        {
+          type: 'invalid',
+          message: 'The values do not match',
+          code: 'mismatch',
+          params: { field: 'password' },
+        },
+      ],
+    });
+
+    act(() => result.current.formFields.password.setValue('secret'));
+
+    expect(result.current.formErrors).toStrictEqual({});
+  });
+
+  it('should re-validate the field with the value set programmatically', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ password: string; confirmPassword: string }>({
+        fields: {
+          password: {
+            type: 'string',
+            defaultValue: 'secret',
+          },
+          confirmPassword: {
+            type: 'string',
+            required: true,
+            revalidateWith: 'password',
+            validator: createHoneyFormMatchFieldValidator({
+              fieldKey: 'password',
+            }),
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.setFormValues({ confirmPassword: 'secret' }));
+
+    expect(result.current.formErrors).toStrictEqual({});
+
+    act(() => result.current.formFields.password.setValue('secret2'));
+
+    expect(result.current.formErrors).toStrictEqual({
+      confirmPassword: [
+        {
+          type: 'invalid',
+          message: 'The values do not match',
+          code: 'mismatch',
+          params: { field: 'password' },
+        },
+      ],
+    });
+  });
+
+  it('should not re-validate the field before the form is validated in the `submit` mode', async () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ password: string; confirmPassword: string }>({
+        fields: {
+          password: {
+            type: 'string',
+          },
+          confirmPassword: {
+            type: 'string',
+            mode: 'submit',
+            revalidateWith: 'password',
+            validator: createHoneyFormMatchFieldValidator({
+              fieldKey: 'password',
+            }),
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.setFormValues({ confirmPassword: 'secret' }, { isValidate: false }));
+    act(() => result.current.formFields.password.setValue('secret2'));
+
+    expect(result.current.formErrors).toStrictEqual({});
+
+    expect(await act(() => result.current.validateForm())).toBeFalsy();
+
+    expect(result.current.formFields.confirmPassword.errors).toHaveLength(1);
+
+    // The erred field is re-validated according to its `revalidateMode`
+    act(() => result.current.formFields.password.setValue('secret'));
+
+    expect(result.current.formErrors).toStrictEqual({});
+  });
+
+  it('should re-validate the dependent fields in order only once', () => {
+    type ChainForm = {
+      first: string;
+      second: string;
+      third: string;
+    };
+
+    const validationOrder: string[] = [];
+
+    const createValidator = (fieldName: keyof ChainForm) =>
+      jest.fn(() => {
+        validationOrder.push(fieldName);
+        return true;
+      });
+
+    const { result } = renderHook(() =>
+      useHoneyForm<ChainForm>({
+        fields: {
+          first: {
+            type: 'string',
+            // Circular dependency
+            revalidateWith: 'third',
+            validator: createValidator('first'),
+          },
+          second: {
+            type: 'string',
+            revalidateWith: 'first',
+            validator: createValidator('second'),
+          },
+          third: {
+            type: 'string',
+            revalidateWith: ['second'],
+            validator: createValidator('third'),
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.third.setValue('3'));
+    act(() => result.current.formFields.second.setValue('2'));
+
+    validationOrder.length = 0;
+
+    act(() => result.current.formFields.first.setValue('1'));
+
+    expect(validationOrder).toStrictEqual(['first', 'second', 'third']);
+  });
+});
+
+describe('Hook [use-honey-form]: Dynamic field options', () => {
+  it('should resolve the required option from the form values', async () => {
+    const EU_COUNTRIES = ['DE', 'FR', 'NL'];
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ country: string; vatNumber: string }>({
+        fields: {
+          country: {
+            type: 'string',
+          },
+          vatNumber: {
+            type: 'string',
+            required: ({ formValues }) => EU_COUNTRIES.includes(formValues.country),
+          },
+        },
+      }),
+    );
+
+    expect(result.current.formFields.vatNumber.props['aria-required']).toBeFalsy();
+
+    act(() => result.current.formFields.country.setValue('DE'));
+
+    expect(result.current.formFields.vatNumber.props['aria-required']).toBeTruthy();
+
+    await act(() => result.current.validateForm());
+
+    expect(result.current.formErrors).toStrictEqual({
+      vatNumber: [
+        {
+          type: 'required',
+          message: 'The value is required',
+          code: 'required',
+        },
+      ],
+    });
+
+    act(() => result.current.formFields.country.setValue('US'));
+
+    expect(result.current.formFields.vatNumber.props['aria-required']).toBeFalsy();
+
+    await act(() => result.current.validateForm());
+
+    expect(result.current.formErrors).toStrictEqual({});
+  });
+
+  it('should resolve the max option from another field value', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ stock: number; quantity: number }>({
+        fields: {
+          stock: {
+            type: 'number',
+            defaultValue: 5,
+          },
+          quantity: {
+            type: 'number',
+            min: 1,
+            max: ({ formValues }) => formValues.stock,
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.quantity.setValue(10));
+
+    expect(result.current.formFields.quantity.errors).toStrictEqual([
+      {
+        type: 'minMax',
+        message: 'The value must be between 1 and 5',
+        code: 'minMaxValue',
+        params: { min: 1, max: 5, actual: 10 },
+      },
+    ]);
+
+    act(() => result.current.formFields.stock.setValue(20));
+    act(() => result.current.formFields.quantity.setValue(10));
+
+    expect(result.current.formFields.quantity.errors).toStrictEqual([]);
+  });
+});
+
+describe('Hook [use-honey-form]: Field validation rules', () => {
+  it('should run the rules in order and collect all errors', () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            rules: [minLength(3), pattern(/^[a-z]+$/)],
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.username.setValue('A'));
+
+    expect(result.current.formErrors).toStrictEqual({
+      username: [
+        {
+          type: 'min',
+          message: 'The length must be greater than or equal to 3 characters',
+          code: 'minLength',
+          params: { min: 3, actual: 1 },
+        },
+        {
+          type: 'invalid',
+          message: 'Invalid format',
+          code: 'pattern',
+          params: { pattern: '^[a-z]+$' },
+        },
+      ],
+    });
+
+    act(() => result.current.formFields.username.setValue('john'));
+
+    expect(result.current.formErrors).toStrictEqual({});
+    expect(result.current.formValues.username).toBe('john');
+  });
+
+  it('should stop at the first error with the "firstError" validation strategy', () => {
+    const validator = jest.fn(() => true);
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            validationStrategy: 'firstError',
+            rules: [required(), minLength(3), pattern(/^[a-z]+$/)],
+            validator,
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.username.setValue('A'));
+
+    expect(result.current.formFields.username.errors).toStrictEqual([
+      {
+        type: 'min',
+        message: 'The length must be greater than or equal to 3 characters',
+        code: 'minLength',
+        params: { min: 3, actual: 1 },
+      },
+    ]);
+    expect(validator).not.toHaveBeenCalled();
+
+    act(() => result.current.formFields.username.setValue('john'));
+
+    expect(result.current.formFields.username.errors).toStrictEqual([]);
+    expect(validator).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the rule message and error type', async () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ username: string }>({
+        fields: {
+          username: {
+            type: 'string',
+            label: 'Username',
+            rules: [
+              required({ message: '{label} is required' }),
+              minLength(3, {
+                type: 'tooShort',
+                message: '{label} must be at least {min} characters',
+              }),
+            ],
+          },
+        },
+      }),
+    );
+
+    await act(() => result.current.validateForm());
+
+    expect(result.current.formFields.username.errors).toStrictEqual([
+      {
+        type: 'required',
+        message: 'Username is required',
+        code: 'required',
+      },
+    ]);
+
+    act(() => result.current.formFields.username.setValue('Jo'));
+
+    expect(result.current.formFields.username.errors).toStrictEqual([
+      {
+        type: 'tooShort',
+        message: 'Username must be at least 3 characters',
+        code: 'minLength',
+        params: { min: 3, actual: 2 },
+      },
+    ]);
+  });
+
+  it('should check the value with the "oneOf" and "custom" rules', () => {
+    type ColorsForm = {
+      primaryColor: string;
+      secondaryColor: string;
+    };
+
+    const { result } = renderHook(() =>
+      useHoneyForm<ColorsForm>({
+        fields: {
+          primaryColor: {
+            type: 'string',
+            rules: [oneOf(['red', 'green', 'blue'])],
+          },
+          secondaryColor: {
+            type: 'string',
+            rules: [
+              custom((fieldValue, { formValues }) => fieldValue !== formValues.primaryColor, {
+                type: 'sameColor',
+                message: 'The colors must be different',
+              }),
+            ],
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.formFields.primaryColor.setValue('pink'));
+    act(() => result.current.formFields.secondaryColor.setValue('pink'));
+
+    expect(result.current.formErrors).toStrictEqual({
+      primaryColor: [
+        {
+          type: 'invalid',
+          message: 'The value must be one of: red, green, blue',
+          code: 'oneOf',
+          params: { values: 'red, green, blue' },
+        },
+      ],
+      secondaryColor: [
+        {
+          type: 'sameColor',
+          message: 'The colors must be different',
+          code: 'invalid',
+        },
+      ],
+    });
+  });
+});
+
+describe('Hook [use-honey-form]: Advisory field errors', () => {
+  it('should not block the form submission when the field has only warnings', async () => {
+    const onSubmit = jest.fn();
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ email: string }>({
+        fields: {
+          email: {
+            type: 'string',
+            validator: value =>
+              value?.endsWith('@gmail.com')
+                ? [
+                    {
+                      type: 'invalid',
+                      message: 'This looks like a personal email',
+                      severity: 'warning',
+                    },
+                  ]
+                : true,
+          },
+        },
+        onSubmit,
+      }),
+    );
+
+    act(() => result.current.formFields.email.setValue('john@gmail.com'));
+
+    expect(result.current.formErrors).toStrictEqual({
+      email: [
+        { type: 'invalid', message: 'This looks like a personal email', severity: 'warning' },
+      ],
+    });
+    expect(result.current.formFields.email.props['aria-invalid']).toBeFalsy();
+    expect(result.current.isFormErred).toBeFalsy();
+
+    await act(() => result.current.submitForm());
+
+    expect(result.current.isFormValid).toBeTruthy();
+    expect(onSubmit).toHaveBeenCalledWith({ email: 'john@gmail.com' }, expect.any(Object));
+  });
+
+  it('should block the form submission when the field has the warning along with the error', async () => {
+    const onSubmit = jest.fn();
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ email: string }>({
+        fields: {
+          email: {
+            type: 'string',
+            validator: () => [
+              { type: 'invalid', message: 'Invalid email' },
+              { type: 'invalid', message: 'This looks like a personal email', severity: 'info' },
+            ],
+          },
+        },
+        onSubmit,
+      }),
+    );
+
+    act(() => result.current.formFields.email.setValue('john@gmail'));
+
+    expect(result.current.formFields.email.props['aria-invalid']).toBeTruthy();
+    expect(result.current.isFormErred).toBeTruthy();
+
+    await act(() => result.current.submitForm());
+
+    expect(result.current.isFormValid).toBeFalsy();
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('should not make the form invalid when the form validator returns only warnings', async () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<{ email: string; phone: string }>({
+        fields: {
+          email: {
+            type: 'string',
+          },
+          phone: {
+            type: 'string',
+          },
+        },
+        validator: () => ({
+          fieldErrors: {
+            phone: [
+              {
+                type: 'invalid',
+                message: 'Add the phone to be contacted faster',
+                severity: 'info',
+              },
+            ],
+          },
+        }),
+      }),
+    );
+
+    expect(await act(() => result.current.validateForm())).toBeTruthy();
+
+    expect(result.current.formErrors).toStrictEqual({
+      phone: [
+        { type: 'invalid', message: 'Add the phone to be contacted faster', severity: 'info' },
+      ],
+    });
+  });
+});
+
+describe('Hook [use-honey-form]: Form validator', () => {
+  type ContactsForm = {
+    email: string;
+    phone: string;
+  };
+
+  it('should set the form validator errors and prevent submitting the form', async () => {
+    const onSubmit = jest.fn<Promise<void>, [ContactsForm]>();
+
+    const { result } = renderHook(() =>
+      useHoneyForm<ContactsForm>({
+        fields: {
+          email: {
+            type: 'string',
+          },
+          phone: {
+            type: 'string',
+          },
+        },
+        validator: formValues =>
+          formValues.email || formValues.phone
+            ? {}
+            : {
+                fieldErrors: {
+                  email: [{ type: 'invalid', message: 'Email or phone is required' }],
+                },
+                rootErrors: ['At least one contact method is required'],
+              },
+        onSubmit,
+      }),
+    );
+
+    await act(() => result.current.submitForm());
+
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    expect(result.current.isFormErred).toBeTruthy();
+    expect(result.current.formErrors).toStrictEqual({
+      email: [{ type: 'invalid', message: 'Email or phone is required' }],
+    });
+    expect(result.current.formRootErrors).toStrictEqual([
+      { type: 'invalid', message: 'At least one contact method is required' },
+    ]);
+
+    act(() => result.current.formFields.phone.setValue('+1 555 0100'));
+
+    await act(() => result.current.submitForm());
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      { email: undefined, phone: '+1 555 0100' },
+      { formContext: undefined },
+    );
+
+    expect(result.current.formErrors).toStrictEqual({});
+    expect(result.current.formRootErrors).toStrictEqual([]);
+  });
+
+  it('should run the async form validator after the field validators with the form context', async () => {
+    const validator = jest.fn(
+      (formValues: { total: number; items: number }, { formContext }: { formContext: number }) =>
+        Promise.resolve(
+          formValues.total === formValues.items * formContext
+            ? {}
+            : { rootErrors: ['The totals must add up'] },
+        ),
+    );
+
+    const { result } = renderHook(() =>
+      useHoneyForm<{ total: number; items: number }, number>({
+        fields: {
+          total: {
+            type: 'number',
+            required: true,
+            defaultValue: 10,
+          },
+          items: {
+            type: 'number',
+            defaultValue: 2,
+          },
+        },
+        context: 5,
+        validator,
+      }),
+    );
+
+    act(() => result.current.formFields.total.setValue(undefined));
+
+    expect(await act(() => result.current.validateForm())).toBeFalsy();
+
+    expect(validator).toHaveBeenCalledWith({ total: undefined, items: 2 }, { formContext: 5 });
+    expect(result.current.formErrors).toStrictEqual({
+      total: [{ type: 'required', message: 'The value is required', code: 'required' }],
+    });
+    expect(result.current.formRootErrors).toStrictEqual([
+      { type: 'invalid', message: 'The totals must add up' },
+    ]);
+
+    act(() => result.current.formFields.total.setValue(10));
+
+    expect(await act(() => result.current.validateForm())).toBeTruthy();
+
+    expect(result.current.formRootErrors).toStrictEqual([]);
+  });
+
+  it('should not add the form validator errors to the excluded fields', async () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<ContactsForm>({
+        fields: {
+          email: {
+            type: 'string',
+          },
+          phone: {
+            type: 'string',
+          },
+        },
+        validator: () => ({
+          fieldErrors: {
+            email: [{ type: 'invalid', message: 'Invalid email' }],
+            phone: [{ type: 'invalid', message: 'Invalid phone' }],
+          },
+        }),
+      }),
+    );
+
+    expect(await act(() => result.current.validateForm({ excludeFields: ['phone'] }))).toBeFalsy();
+
+    expect(result.current.formErrors).toStrictEqual({
+      email: [{ type: 'invalid', message: 'Invalid email' }],
+    });
+  });
+
+  it('should keep the form root errors that were not produced by the form validator', async () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<ContactsForm>({
+        fields: {
+          email: {
+            type: 'string',
+          },
+          phone: {
+            type: 'string',
+          },
+        },
+        validator: formValues =>
+          formValues.email ? {} : { rootErrors: ['At least one contact method is required'] },
+      }),
+    );
+
+    act(() => result.current.setFormRootErrors([{ type: 'server', message: 'Session expired' }]));
+
+    expect(await act(() => result.current.validateForm())).toBeFalsy();
+
+    expect(result.current.formRootErrors).toStrictEqual([
+      { type: 'server', message: 'Session expired' },
+      { type: 'invalid', message: 'At least one contact method is required' },
+    ]);
+
+    act(() => result.current.formFields.email.setValue('john@example.com'));
+
+    // The validation of the specific fields does not change the form root errors
+    await act(() => result.current.validateForm({ targetFields: ['email'] }));
+
+    expect(result.current.formRootErrors).toStrictEqual([
+      { type: 'server', message: 'Session expired' },
+      { type: 'invalid', message: 'At least one contact method is required' },
+    ]);
+
+    await act(() => result.current.validateForm());
+
+    expect(result.current.formRootErrors).toStrictEqual([
+      { type: 'server', message: 'Session expired' },
+    ]);
+  });
+
+  it('should not change the form root errors at validation when the form validator is not set', async () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<ContactsForm>({
+        fields: {
+          email: {
+            type: 'string',
+          },
+          phone: {
+            type: 'string',
+          },
+        },
+      }),
+    );
+
+    act(() => result.current.setFormRootErrors([{ type: 'server', message: 'Payment declined' }]));
+
+    await act(() => result.current.validateForm());
+
+    expect(result.current.formRootErrors).toStrictEqual([
+      { type: 'server', message: 'Payment declined' },
+    ]);
+  });
+
+  it('should set the error thrown by the form validator as the form root error', async () => {
+    const onSubmit = jest.fn<Promise<void>, [ContactsForm]>();
+
+    const { result } = renderHook(() =>
+      useHoneyForm<ContactsForm>({
+        fields: {
+          email: {
+            type: 'string',
+          },
+          phone: {
+            type: 'string',
+          },
+        },
+        validator: () => Promise.reject(new Error('Unable to check the contacts')),
+        onSubmit,
+      }),
+    );
+
+    expect(await act(() => result.current.validateForm())).toBeFalsy();
+
+    expect(result.current.formRootErrors).toStrictEqual([
+      { type: 'invalid', message: 'Unable to check the contacts' },
+    ]);
+
+    await act(() => result.current.submitForm());
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(result.current.formRootErrors).toStrictEqual([
+      { type: 'invalid', message: 'Unable to check the contacts' },
+    ]);
+  });
+
+  it('should set the error thrown by the form validator when validating the specific fields', async () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<ContactsForm>({
+        fields: {
+          email: {
+            type: 'string',
+          },
+          phone: {
+            type: 'string',
+          },
+        },
+        validator: () => {
+          throw new Error('Unable to check the contacts');
+        },
+      }),
+    );
+
+    expect(await act(() => result.current.validateForm({ targetFields: ['email'] }))).toBeFalsy();
+
+    expect(result.current.formRootErrors).toStrictEqual([
+      { type: 'invalid', message: 'Unable to check the contacts' },
+    ]);
+  });
+
+  it('should clear the form root errors when resetting the form', async () => {
+    const { result } = renderHook(() =>
+      useHoneyForm<ContactsForm>({
+        fields: {
+          email: {
+            type: 'string',
+          },
+          phone: {
+            type: 'string',
+          },
+        },
+        validator: () => ({
+          rootErrors: ['The form is invalid'],
+        }),
+      }),
+    );
+
+    await act(() => result.current.validateForm());
+
+    expect(result.current.formRootErrors).toHaveLength(1);
+
+    act(() => result.current.resetForm());
+
+    expect(result.current.formRootErrors).toStrictEqual([]);
+    expect(result.current.isFormErred).toBeFalsy();
   });
 });
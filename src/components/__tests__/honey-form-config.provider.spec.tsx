@@ -0,0 +1,213 @@
+import type { ReactNode } from 'react';
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+
+import type { HoneyFormConfig } from '../../types';
+
+import { useHoneyForm } from '../../hooks';
+import { createHoneyFormMatchFieldValidator } from '../../validators';
+import { HoneyFormConfigProvider } from '../honey-form-config.provider';
+
+describe('Component [HoneyFormConfigProvider]: Error messages', () => {
+  const createWrapper = (config: HoneyFormConfig) => {
+    const Wrapper = ({ children }: { children: ReactNode }) => (
+      <HoneyFormConfigProvider {...config}>{children}</HoneyFormConfigProvider>
+    );
+
+    return Wrapper;
+  };
+
+  it('should use the default messages with the interpolated params and field label', () => {
+    const { result } = renderHook(
+      () =>
+        useHoneyForm<{ name: string; email: string }>({
+          fields: {
+            name: {
+              type: 'string',
+              label: 'Name',
+              min: 3,
+            },
+            email: {
+              type: 'email',
+              required: true,
+            },
+          },
+        }),
+      {
+        wrapper: createWrapper({
+          messages: {
+            minLength: '{label} must be at least {min} characters',
+            invalidEmail: 'Некорректный email',
+          },
+        }),
+      },
+    );
+
+    act(() => result.current.formFields.name.setValue('Jo'));
+    act(() => result.current.formFields.email.setValue('john@'));
+
+    expect(result.current.formErrors).toStrictEqual({
+      name: [
+        {
+          type: 'min',
+          message: 'Name must be at least 3 characters',
+          code: 'minLength',
+          params: { min: 3, actual: 2 },
+        },
+      ],
+      email: [
+        {
+          type: 'invalid',
+          message: 'Некорректный email',
+          code: 'invalidEmail',
+        },
+      ],
+    });
+  });
+
+  it('should prefer the field error messages over the default messages', () => {
+    const { result } = renderHook(
+      () =>
+        useHoneyForm<{ name: string }>({
+          fields: {
+            name: {
+              type: 'string',
+              min: 3,
+              errorMessages: {
+                min: 'The name is too short',
+              },
+            },
+          },
+        }),
+      {
+        wrapper: createWrapper({
+          messages: {
+            minLength: 'Must be at least {min} characters',
+          },
+        }),
+      },
+    );
+
+    act(() => result.current.formFields.name.setValue('Jo'));
+
+    expect(result.current.formFields.name.errors[0].message).toBe('The name is too short');
+  });
+
+  it('should keep the messages of the errors returned by the custom validators', () => {
+    const { result } = renderHook(
+      () =>
+        useHoneyForm<{ name: string }>({
+          fields: {
+            name: {
+              type: 'string',
+              validator: () => [
+                {
+                  type: 'invalid',
+                  message: 'The name is already taken',
+                  code: 'nameTaken',
+                },
+              ],
+            },
+          },
+        }),
+      {
+        wrapper: createWrapper({
+          messages: {
+            nameTaken: 'Taken',
+            invalid: 'The value is invalid',
+          },
+        }),
+      },
+    );
+
+    act(() => result.current.formFields.name.setValue('John'));
+
+    expect(result.current.formFields.name.errors).toStrictEqual([
+      {
+        type: 'invalid',
+        message: 'The name is already taken',
+        code: 'nameTaken',
+      },
+    ]);
+  });
+
+  it('should replace the default messages of the predefined validators', () => {
+    const { result } = renderHook(
+      () =>
+        useHoneyForm<{ password: string; confirmPassword: string }>({
+          fields: {
+            password: {
+              type: 'string',
+            },
+            confirmPassword: {
+              type: 'string',
+              label: 'Confirm password',
+              validator: createHoneyFormMatchFieldValidator({ fieldKey: 'password' }),
+            },
+          },
+        }),
+      {
+        wrapper: createWrapper({
+          messages: {
+            mismatch: '{label} does not match the {field}',
+          },
+        }),
+      },
+    );
+
+    act(() => result.current.formFields.password.setValue('secret'));
+    act(() => result.current.formFields.confirmPassword.setValue('secret1'));
+
+    expect(result.current.formFields.confirmPassword.errors).toStrictEqual([
+      {
+        type: 'invalid',
+        message: 'Confirm password does not match the password',
+        code: 'mismatch',
+        params: { field: 'password' },
+      },
+    ]);
+  });
+
+  it('should resolve the error messages for the current locale', async () => {
+    const translations: Record<string, Record<string, string>> = {
+      en: { required: '{label} is required' },
+      de: { required: '{label} ist erforderlich' },
+    };
+
+    const resolveErrorMessage = jest.fn<
+      ReturnType<NonNullable<HoneyFormConfig['resolveErrorMessage']>>,
+      Parameters<NonNullable<HoneyFormConfig['resolveErrorMessage']>>
+    >((fieldError, { locale }) => translations[locale]?.[fieldError.code]);
+
+    const { result } = renderHook(
+      () =>
+        useHoneyForm<{ name: string }>({
+          fields: {
+            name: {
+              type: 'string',
+              label: 'Name',
+              required: true,
+            },
+          },
+        }),
+      {
+        wrapper: createWrapper({
+          locale: 'de',
+          messages: {
+            required: 'The value is missing',
+          },
+          resolveErrorMessage,
+        }),
+      },
+    );
+
+    await act(() => result.current.validateForm());
+
+    const [fieldError, { locale, fieldConfig }] = resolveErrorMessage.mock.calls[0];
+
+    expect(fieldError.code).toBe('required');
+    expect(locale).toBe('de');
+    expect(fieldConfig.label).toBe('Name');
+    expect(result.current.formFields.name.errors[0].message).toBe('Name ist erforderlich');
+  });
+});
@@ -0,0 +1,32 @@
+import type { ReactNode } from 'react';
+import React, { createContext, useContext, useMemo } from 'react';
+
+import type { HoneyFormConfig } from '../types';
+
+const HoneyFormConfigContext = createContext<HoneyFormConfig>({});
+
+export type HoneyFormConfigProviderProps = HoneyFormConfig & {
+  children?: ReactNode;
+};
+
+export const HoneyFormConfigProvider = ({
+  children,
+  locale,
+  messages,
+  resolveErrorMessage,
+}: HoneyFormConfigProviderProps) => {
+  const config = useMemo<HoneyFormConfig>(
+    () => ({ locale, messages, resolveErrorMessage }),
+    [locale, messages, resolveErrorMessage],
+  );
+
+  return (
+    <HoneyFormConfigContext.Provider value={config}>{children}</HoneyFormConfigContext.Provider>
+  );
+};
+
+/**
+ * Returns the global configuration from the closest `HoneyFormConfigProvider`.
+ * It is an empty object when the forms are rendered outside the provider.
+ */
+export const useHoneyFormConfig = () => useContext(HoneyFormConfigContext);
@@ -1,3 +1,4 @@
+export * from './honey-form-config.provider';
 export * from './honey-form.provider';
 export * from './child-honey-form.provider';
 export * from './honey-form-dynamic.field';
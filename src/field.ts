@@ -9,7 +9,7 @@ import type {
   HoneyFormField,
   HoneyFormFieldType,
   HoneyFormFieldValidationResult,
-  HoneyFormFieldValueConvertor,
+  HoneyFormFieldValidationCacheConfig,
   HoneyFormFieldSetInternalValue,
   HoneyFormFieldPushValue,
   HoneyFormFieldRemoveValue,
@@ -43,11 +43,20 @@ import {
   checkIfFieldIsNestedForms,
   checkIfFieldIsObject,
   checkIfFieldIsPassive,
+  checkIfFieldErrorIsBlocking,
+  checkIfFieldErrorMessageIsDefault,
+  checkIfFieldValidationIsTriggered,
+  checkIfValueIsEmpty,
   forEachFormField,
   getFormValues,
   checkIsSkipField,
   scheduleFieldValidation,
+  cancelFieldPendingValidation,
+  interpolateMessage,
   noop,
+  resolveFieldConfig,
+  resolveFieldConfigOption,
+  sanitizeFieldValue,
 } from './helpers';
 import { HONEY_FORM_ERRORS } from './constants';
 
@@ -58,19 +67,6 @@ const FIELD_TYPE_MAP: Partial<Record<HoneyFormFieldType, HTMLInputTypeAttribute>
   file: 'file',
 };
 
-const DEFAULT_FIELD_VALUE_CONVERTORS_MAP: Partial<
-  Record<HoneyFormFieldType, HoneyFormFieldValueConvertor<any>>
-> = {
-  number: (value: number | string | undefined) => {
-    if (typeof value === 'string' && value) {
-      // Try to replace thousands separators because they can be added by number filter
-      return Number(value.replace(/,/g, ''));
-    }
-
-    return typeof value === 'number' ? value : undefined;
-  },
-};
-
 /**
  * Gets the appropriate input mode for a given form field based on its configuration.
  *
@@ -134,7 +130,8 @@ const getBaseFieldProps = <
     inputMode: getFieldInputMode(fieldConfig),
     name: fieldName.toString(),
     // ARIA
-    'aria-required': fieldConfig.required,
+    // The dynamic `required` is resolved when the values of all form fields are known
+    'aria-required': typeof fieldConfig.required === 'function' ? undefined : fieldConfig.required,
     'aria-invalid': false,
   };
 };
@@ -147,6 +144,7 @@ type InteractiveFieldPropsOptions<
   formFieldRef: RefObject<HTMLElement>;
   fieldConfig: HoneyFormInteractiveFieldConfig<Form, FieldName, FormContext>;
   setFieldValue: HoneyFormFieldSetInternalValue<Form>;
+  flushFieldValidation: () => void;
 };
 
 /**
@@ -175,24 +173,36 @@ const getInteractiveFieldProps = <
     formFieldRef,
     fieldConfig,
     setFieldValue,
+    flushFieldValidation,
   }: InteractiveFieldPropsOptions<Form, FieldName, FormContext>,
 ): HoneyFormInteractiveFieldProps<Form, FieldName, FieldValue> => {
   const baseFieldProps = getBaseFieldProps(fieldName, formFieldRef, fieldConfig);
 
+  const isValidateOnBlur =
+    fieldConfig.mode === 'blur' ||
+    fieldConfig.mode === 'touched' ||
+    fieldConfig.revalidateMode === 'blur';
+
   return {
     ...baseFieldProps,
     value: fieldValue ?? ('' as FieldValue),
     //
     onChange: e => {
       setFieldValue(fieldName, e.target.value, {
-        isValidate: fieldConfig.mode === 'change',
         isFormat: !fieldConfig.formatOnBlur,
+        isDebounceValidation: true,
+        trigger: 'change',
       });
     },
-    ...((fieldConfig.mode === 'blur' || fieldConfig.formatOnBlur) && {
+    ...((isValidateOnBlur || fieldConfig.formatOnBlur || fieldConfig.validationDebounce) && {
       onBlur: e => {
-        if (!e.target.readOnly) {
-          setFieldValue(fieldName, e.target.value);
+        if ((isValidateOnBlur || fieldConfig.formatOnBlur) && !e.target.readOnly) {
+          setFieldValue(fieldName, e.target.value, {
+            trigger: 'blur',
+          });
+        } else {
+          // The debounced validation should not wait when the focus leaves the input
+          flushFieldValidation();
         }
       },
     }),
@@ -329,6 +339,7 @@ type FieldPropsOptions<
   formFieldRef: RefObject<HTMLElement>;
   fieldConfig: HoneyFormFieldConfig<Form, FieldName, FormContext>;
   setFieldValue: HoneyFormFieldSetInternalValue<Form>;
+  flushFieldValidation: () => void;
 };
 
 /**
@@ -357,7 +368,12 @@ const getFieldProps = <
 >(
   fieldName: FieldName,
   fieldValue: FieldValue,
-  { formFieldRef, fieldConfig, setFieldValue }: FieldPropsOptions<Form, FieldName, FormContext>,
+  {
+    formFieldRef,
+    fieldConfig,
+    setFieldValue,
+    flushFieldValidation,
+  }: FieldPropsOptions<Form, FieldName, FormContext>,
 ): HoneyFormFieldProps<Form, FieldName, FieldValue> => {
   const isFieldInteractive = checkIfFieldIsInteractive(fieldConfig);
   if (isFieldInteractive) {
@@ -368,6 +384,7 @@ const getFieldProps = <
         formFieldRef,
         fieldConfig,
         setFieldValue,
+        flushFieldValidation,
       }),
     };
   }
@@ -406,7 +423,7 @@ const getFieldProps = <
 };
 
 type CreateFieldOptions<Form extends HoneyFormBaseForm, FormContext> = {
-  form?: HoneyFormMeta;
+  form: HoneyFormMeta;
   formContext: FormContext;
   formFieldsRef: HoneyFormFieldsRef<Form, FormContext>;
   formDefaultsRef: HoneyFormDefaultsRef<Form>;
@@ -459,7 +476,8 @@ export const createField = <
     required: false,
     ...(checkIfFieldIsInteractive(fieldConfig) && {
       // Set default config values
-      mode: 'change',
+      mode: form.mode ?? 'change',
+      revalidateMode: form.revalidateMode ?? 'change',
       formatOnBlur: false,
       submitFormattedValue: false,
     }),
@@ -487,12 +505,28 @@ export const createField = <
     form,
     formFieldsRef,
     isValidationScheduled: false,
+    validationTimeoutId: null,
+    validationAbortController: null,
+    validationCache: null,
+    isTouched: false,
+    isLocallyChanged: false,
     childForms: undefined,
   };
 
+  const flushFieldValidation = () => {
+    // The debounce timeout is scheduled for each change, but only the changes triggering the validation make the field wait for it
+    if (
+      fieldMeta.validationTimeoutId !== null &&
+      formFieldsRef.current?.[fieldName]?.isValidating
+    ) {
+      validateField(fieldName);
+    }
+  };
+
   const fieldProps = getFieldProps(fieldName, resultValue, {
     formFieldRef,
     setFieldValue,
+    flushFieldValidation,
     fieldConfig: config,
   });
 
@@ -506,6 +540,7 @@ export const createField = <
     cleanValue: filteredValue,
     value: resultValue,
     isValidating: false,
+    hasRemoteChanges: false,
     // TODO: try to fix the next error
     // @ts-expect-error
     getChildFormsValues: () => {
@@ -624,7 +659,7 @@ export const getNextErredField = <
   const isFieldPassive = checkIfFieldIsPassive(formField.config);
   const isFieldObject = checkIfFieldIsObject(formField.config);
 
-  const isFieldErred = fieldErrors.length > 0;
+  const isFieldErred = fieldErrors.some(checkIfFieldErrorIsBlocking);
 
   const props = isFieldInteractive
     ? {
@@ -653,8 +688,8 @@ export const getNextErredField = <
     passiveProps,
     objectProps,
     errors: fieldErrors,
-    // Set clean value as `undefined` if any error is present
-    cleanValue: fieldErrors.length ? undefined : formField.cleanValue,
+    // Set clean value as `undefined` if any blocking error is present
+    cleanValue: isFieldErred ? undefined : formField.cleanValue,
   };
 };
 
@@ -720,6 +755,77 @@ export const getNextResetField = <
   };
 };
 
+/**
+ * Resolves the message of the field error via the global configuration from the `HoneyFormConfigProvider`.
+ * Only the errors with the `code` are resolved, and the field `errorMessages` take precedence.
+ *
+ * @template Form - The type representing the entire form.
+ * @template FieldName - The name of the field within the form.
+ * @template FormContext - Contextual information for the form.
+ *
+ * @param {HoneyFormField<Form, FieldName, FormContext>} formField - The erred form field.
+ * @param {HoneyFormFieldError} fieldError - The field error to resolve the message for.
+ *
+ * @returns {HoneyFormFieldError} - The field error with the resolved message.
+ */
+const resolveFieldErrorMessage = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+>(
+  formField: HoneyFormField<Form, FieldName, FormContext>,
+  fieldError: HoneyFormFieldError,
+): HoneyFormFieldError => {
+  const { locale, messages, resolveErrorMessage } = formField.__meta__.form.config;
+
+  if (!fieldError.code || formField.config.errorMessages?.[fieldError.type] !== undefined) {
+    return fieldError;
+  }
+
+  const message =
+    resolveErrorMessage?.(fieldError, { fieldConfig: formField.config, locale }) ??
+    messages?.[fieldError.code] ??
+    messages?.[fieldError.type];
+
+  if (message === undefined) {
+    return fieldError;
+  }
+
+  return {
+    ...fieldError,
+    message:
+      typeof message === 'string'
+        ? interpolateMessage(message, { label: formField.config.label, ...fieldError.params })
+        : message,
+  };
+};
+
+/**
+ * Resolves the message of the field error returned by the custom validator.
+ * The custom validator errors keep their own messages, only the default messages of the library validators
+ * (e.g., the cross-field validators) are resolved via the global configuration.
+ *
+ * @template Form - The type representing the entire form.
+ * @template FieldName - The name of the field within the form.
+ * @template FormContext - Contextual information for the form.
+ *
+ * @param {HoneyFormField<Form, FieldName, FormContext>} formField - The erred form field.
+ * @param {HoneyFormFieldError} fieldError - The field error returned by the custom validator.
+ *
+ * @returns {HoneyFormFieldError} - The field error with the resolved message.
+ */
+const resolveCustomFieldErrorMessage = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+>(
+  formField: HoneyFormField<Form, FieldName, FormContext>,
+  fieldError: HoneyFormFieldError,
+): HoneyFormFieldError =>
+  checkIfFieldErrorMessageIsDefault(fieldError)
+    ? resolveFieldErrorMessage(formField, fieldError)
+    : fieldError;
+
 /**
  * Handle the result of field validation and update the field errors array accordingly.
  *
@@ -728,7 +834,7 @@ export const getNextResetField = <
  * @template FormContext - The context of the form.
  *
  * @param {HoneyFormFieldError[]} fieldErrors - The array to collect validation errors for the field.
- * @param {HoneyFormFieldConfig<Form, FieldName, FormContext>} fieldConfig - Configuration for the field being validated.
+ * @param {HoneyFormField<Form, FieldName, FormContext>} formField - The field being validated.
  * @param {HoneyFormFieldValidationResult | null} validationResult - The result of the field validation.
  */
 const handleFieldValidationResult = <
@@ -737,12 +843,16 @@ const handleFieldValidationResult = <
   FormContext,
 >(
   fieldErrors: HoneyFormFieldError[],
-  fieldConfig: HoneyFormFieldConfig<Form, FieldName, FormContext>,
+  formField: HoneyFormField<Form, FieldName, FormContext>,
   validationResult: HoneyFormFieldValidationResult | null,
 ) => {
   if (validationResult) {
     if (Array.isArray(validationResult)) {
-      fieldErrors.push(...validationResult);
+      fieldErrors.push(
+        ...validationResult.map(fieldError =>
+          resolveCustomFieldErrorMessage(formField, fieldError),
+        ),
+      );
     }
     // If the result is not a boolean, treat it as an invalid value and add it to fieldErrors
     else if (typeof validationResult !== 'boolean') {
@@ -754,10 +864,13 @@ const handleFieldValidationResult = <
   }
   // If validationResult is explicitly false, add a default invalid value error
   else if (validationResult === false) {
-    fieldErrors.push({
-      type: 'invalid',
-      message: fieldConfig.errorMessages?.invalid ?? 'Invalid value',
-    });
+    fieldErrors.push(
+      resolveFieldErrorMessage(formField, {
+        type: 'invalid',
+        message: formField.config.errorMessages?.invalid ?? 'Invalid value',
+        code: 'invalid',
+      }),
+    );
   }
 };
 
@@ -837,12 +950,20 @@ const getNextValidatedField = <
   formField: HoneyFormField<Form, FieldName, FormContext>,
   cleanValue: Form[FieldName] | undefined,
 ): HoneyFormField<Form, FieldName, FormContext> => {
-  handleFieldValidationResult(fieldErrors, formField.config, validationResult);
+  handleFieldValidationResult(fieldErrors, formField, validationResult);
 
-  if (fieldErrors.length) {
+  if (fieldErrors.some(checkIfFieldErrorIsBlocking)) {
     return getNextErredField(formField, fieldErrors);
   }
 
+  if (fieldErrors.length) {
+    // The field with only advisory errors (warnings) is valid and keeps its clean value
+    return {
+      ...getNextErredField(formField, fieldErrors),
+      cleanValue,
+    };
+  }
+
   const errorsFreeField = getNextErrorsFreeField(formField);
 
   return {
@@ -863,6 +984,7 @@ const getNextValidatedField = <
  * @param {HoneyFormFields<Form, FormContext>} formFields - The current state of all form fields.
  * @param {HoneyFormField<Form, FieldName, FormContext>} formField - The current state of the form field.
  * @param {FieldValue | undefined} fieldValue - The current value of the form field.
+ * @param {AbortSignal} signal - The signal that is aborted when the validation is superseded.
  *
  * @returns {HoneyFormFieldValidationResult | null} - The result of the field type validation.
  */
@@ -876,6 +998,7 @@ const executeFieldTypeValidator = <
   formFields: HoneyFormFields<Form, FormContext>,
   formField: HoneyFormField<Form, FieldName, FormContext>,
   fieldValue: FieldValue | undefined,
+  signal: AbortSignal,
 ): HoneyFormFieldValidationResult | null => {
   if (formField.config.type === 'object' || formField.config.type === 'nestedForms') {
     return null;
@@ -898,6 +1021,7 @@ const executeFieldTypeValidator = <
       formValues,
       fieldConfig: formField.config,
       scheduleValidation: fieldName => scheduleFieldValidation(formFields[fieldName]),
+      signal,
     });
   } else if (checkIfFieldIsPassive(formField.config)) {
     const validator = PASSIVE_FIELD_TYPE_VALIDATORS_MAP[formField.config.type];
@@ -908,6 +1032,7 @@ const executeFieldTypeValidator = <
       formValues,
       fieldConfig: formField.config,
       scheduleValidation: fieldName => scheduleFieldValidation(formFields[fieldName]),
+      signal,
     });
   }
 
@@ -931,8 +1056,10 @@ const executeFieldTypeValidator = <
  * @template FormContext - Contextual information for the form.
  * @template FieldValue - Type representing the value of the field.
  *
+ * @param formContext - The context of the form.
+ * @param formFields - The current state of all form fields.
+ * @param formField - The form field being validated.
  * @param fieldValue - The current value of the field.
- * @param fieldConfig - Configuration options for the form field.
  * @param fieldErrors - An array of errors associated with the field.
  */
 const executeInternalFieldValidators = <
@@ -941,19 +1068,352 @@ const executeInternalFieldValidators = <
   FormContext,
   FieldValue extends Form[FieldName],
 >(
+  formContext: FormContext,
+  formFields: HoneyFormFields<Form, FormContext>,
+  formField: HoneyFormField<Form, FieldName, FormContext>,
   fieldValue: FieldValue | undefined,
-  fieldConfig: HoneyFormFieldConfig<Form, FieldName, FormContext>,
   fieldErrors: HoneyFormFieldError[],
 ) => {
+  // The built-in validators use the current values of the dynamic `required`, `min` and `max` options
+  const fieldConfig = resolveFieldConfig(formField.config, {
+    formContext,
+    formFields,
+    formValues: getFormValues(formFields),
+  });
+  const builtInFieldErrors: HoneyFormFieldError[] = [];
+
   BUILT_IN_FIELD_VALIDATORS.forEach(validator => {
-    validator(fieldValue, fieldConfig, fieldErrors);
+    validator(fieldValue, fieldConfig, builtInFieldErrors);
   });
 
   if (checkIfFieldIsInteractive(fieldConfig)) {
     BUILT_IN_INTERACTIVE_FIELD_VALIDATORS.forEach(validator => {
-      validator(fieldValue, fieldConfig, fieldErrors);
+      validator(fieldValue, fieldConfig, builtInFieldErrors);
     });
   }
+
+  fieldErrors.push(
+    ...builtInFieldErrors.map(fieldError => resolveFieldErrorMessage(formField, fieldError)),
+  );
+};
+
+/**
+ * Checks if the field validation should stop because of the already collected errors.
+ * Only the `firstError` validation strategy stops the validation, and the advisory errors do not stop it.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FieldName - Name of the field in the form.
+ * @template FormContext - Contextual information for the form.
+ *
+ * @param formField - The form field being validated.
+ * @param fieldErrors - The already collected errors of the field.
+ *
+ * @returns `true` when the next validators should not be run.
+ */
+const checkIfFieldValidationIsStopped = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+>(
+  formField: HoneyFormField<Form, FieldName, FormContext>,
+  fieldErrors: HoneyFormFieldError[],
+) =>
+  formField.config.validationStrategy === 'firstError' &&
+  fieldErrors.some(checkIfFieldErrorIsBlocking);
+
+/**
+ * Executes the validation rules of the form field in order.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FieldName - Name of the field in the form.
+ * @template FormContext - Contextual information for the form.
+ * @template FieldValue - Type representing the value of the field.
+ *
+ * @param formContext - The context of the form.
+ * @param formFields - The current state of all form fields.
+ * @param formField - The form field being validated.
+ * @param fieldValue - The current value of the field.
+ * @param fieldErrors - An array of errors associated with the field.
+ */
+const executeFieldRules = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+  FieldValue extends Form[FieldName],
+>(
+  formContext: FormContext,
+  formFields: HoneyFormFields<Form, FormContext>,
+  formField: HoneyFormField<Form, FieldName, FormContext>,
+  fieldValue: FieldValue | undefined,
+  fieldErrors: HoneyFormFieldError[],
+) => {
+  const { rules } = formField.config;
+  if (!rules?.length) {
+    return;
+  }
+
+  const formValues = getFormValues(formFields);
+
+  // Stops at the first rule after which the validation should not continue
+  rules.some(rule => {
+    if (checkIfFieldValidationIsStopped(formField, fieldErrors)) {
+      return true;
+    }
+
+    const fieldError = rule.validate(fieldValue, {
+      formContext,
+      formFields,
+      formValues,
+      fieldConfig: formField.config,
+    });
+
+    if (fieldError) {
+      if (rule.message === undefined) {
+        fieldErrors.push(resolveFieldErrorMessage(formField, fieldError));
+      } else {
+        fieldErrors.push({
+          ...fieldError,
+          message:
+            typeof rule.message === 'string'
+              ? interpolateMessage(rule.message, {
+                  label: formField.config.label,
+                  ...fieldError.params,
+                })
+              : rule.message,
+        });
+      }
+    }
+
+    return false;
+  });
+};
+
+const DEFAULT_FIELD_VALIDATION_CACHE_MAX_SIZE = 100;
+
+/**
+ * Reads the cached result of the asynchronous field validation.
+ * The cache is cleared when it was filled with another form context.
+ *
+ * @returns The cache entry with the validation result, or `undefined` when there is no valid cached result.
+ */
+const readFieldValidationCache = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+>(
+  formField: HoneyFormField<Form, FieldName, FormContext>,
+  formContext: FormContext,
+  cacheKey: string,
+) => {
+  const { validationCache } = formField.__meta__;
+  if (!validationCache) {
+    return undefined;
+  }
+
+  if (validationCache.formContext !== formContext) {
+    formField.__meta__.validationCache = null;
+    return undefined;
+  }
+
+  const cacheEntry = validationCache.results.get(cacheKey);
+  if (!cacheEntry) {
+    return undefined;
+  }
+
+  validationCache.results.delete(cacheKey);
+
+  if (cacheEntry.expiresAt !== undefined && cacheEntry.expiresAt <= Date.now()) {
+    return undefined;
+  }
+
+  // Move the entry to the end to remove the least recently used entries first
+  validationCache.results.set(cacheKey, cacheEntry);
+
+  return cacheEntry;
+};
+
+/**
+ * Saves the result of the asynchronous field validation to the cache.
+ * The least recently used result is removed when the cache size exceeds the limit.
+ */
+const writeFieldValidationCache = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+>(
+  formField: HoneyFormField<Form, FieldName, FormContext>,
+  formContext: FormContext,
+  cacheKey: string,
+  validationResult: HoneyFormFieldValidationResult,
+  {
+    maxSize = DEFAULT_FIELD_VALIDATION_CACHE_MAX_SIZE,
+    ttl,
+  }: HoneyFormFieldValidationCacheConfig<Form[FieldName], FormContext>,
+) => {
+  const { validationCache } = formField.__meta__;
+
+  if (!validationCache || validationCache.formContext !== formContext) {
+    formField.__meta__.validationCache = {
+      formContext,
+      results: new Map(),
+    };
+  }
+
+  const { results } = formField.__meta__.validationCache;
+
+  results.set(cacheKey, {
+    result: validationResult,
+    expiresAt: ttl === undefined ? undefined : Date.now() + ttl,
+  });
+
+  if (results.size > maxSize) {
+    results.delete(results.keys().next().value as string);
+  }
+};
+
+/**
+ * Limits the time of the asynchronous field validation.
+ * When the validator is not settled in time, the validation resolves with the `timeout` error.
+ *
+ * @template Form - The type representing the entire form.
+ * @template FieldName - The name of the field within the form.
+ * @template FormContext - Contextual information for the form.
+ *
+ * @param {HoneyFormField<Form, FieldName, FormContext>} formField - The form field being validated.
+ * @param {Promise<HoneyFormFieldValidationResult>} validationResponse - The promise returned by the validator.
+ * @param {number} timeout - The time in milliseconds the validator is waited for.
+ * @param {AbortController} validatorAbortController - The controller of the validator signal. It is aborted on timeout.
+ *
+ * @returns {Promise<HoneyFormFieldValidationResult>} - The validator result or the `timeout` error.
+ */
+const limitFieldAsyncValidationTime = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+>(
+  formField: HoneyFormField<Form, FieldName, FormContext>,
+  validationResponse: Promise<HoneyFormFieldValidationResult>,
+  timeout: number,
+  validatorAbortController: AbortController,
+): Promise<HoneyFormFieldValidationResult> =>
+  new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      // The timed out validator is not needed anymore, e.g., the pending request can be cancelled
+      validatorAbortController.abort();
+
+      resolve([
+        {
+          type: 'timeout',
+          message: formField.config.errorMessages?.timeout ?? 'The validation took too long',
+          code: 'timeout',
+          params: { timeout },
+        },
+      ]);
+    }, timeout);
+
+    validationResponse.then(
+      validationResult => {
+        clearTimeout(timeoutId);
+        resolve(validationResult);
+      },
+      (e: Error) => {
+        clearTimeout(timeoutId);
+        reject(e);
+      },
+    );
+  });
+
+/**
+ * Executes the custom validator of the form field.
+ *
+ * @remarks
+ * When the field `validationCache` is enabled, the cached result of the asynchronous validation
+ * is returned for the previously validated value without calling the validator.
+ *
+ * @template Form - The type representing the entire form.
+ * @template FieldName - The name of the field within the form.
+ * @template FormContext - Contextual information for the form.
+ * @template FieldValue - The type of the field's value.
+ *
+ * @param {FormContext} formContext - The context of the form.
+ * @param {HoneyFormFields<Form, FormContext>} formFields - The current state of all form fields.
+ * @param {HoneyFormField<Form, FieldName, FormContext>} formField - The form field being validated.
+ * @param {FieldValue | undefined} fieldValue - The sanitized value of the form field.
+ * @param {AbortSignal} signal - The signal that is aborted when the validation is superseded.
+ *
+ * @returns {HoneyFormFieldValidationResult | Promise<HoneyFormFieldValidationResult>} - The result of the validator.
+ */
+const executeFieldCustomValidator = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+  FieldValue extends Form[FieldName],
+>(
+  formContext: FormContext,
+  formFields: HoneyFormFields<Form, FormContext>,
+  formField: HoneyFormField<Form, FieldName, FormContext>,
+  fieldValue: FieldValue | undefined,
+  signal: AbortSignal,
+): HoneyFormFieldValidationResult | Promise<HoneyFormFieldValidationResult> => {
+  const { validationCache } = formField.config;
+
+  const cacheConfig: HoneyFormFieldValidationCacheConfig<Form[FieldName], FormContext> | null =
+    validationCache === true ? {} : validationCache || null;
+
+  let cacheKey: string | undefined;
+
+  if (cacheConfig) {
+    cacheKey = cacheConfig.key
+      ? cacheConfig.key(fieldValue, { formContext })
+      : (JSON.stringify(fieldValue) ?? '');
+
+    const cacheEntry = readFieldValidationCache(formField, formContext, cacheKey);
+    if (cacheEntry) {
+      return cacheEntry.result;
+    }
+  }
+
+  const formValues = getFormValues(formFields);
+
+  const asyncValidationTimeout =
+    formField.config.asyncValidationTimeout ?? formField.__meta__.form.asyncValidationTimeout;
+
+  // The validator is also aborted on timeout without aborting the validation itself,
+  // so the validation is finished with the `timeout` error
+  const validatorAbortController = new AbortController();
+  signal.addEventListener('abort', () => validatorAbortController.abort(), { once: true });
+
+  const validationResponse = formField.config.validator(fieldValue, {
+    formContext,
+    formFields,
+    formValues,
+    // @ts-expect-error
+    fieldConfig: formField.config,
+    scheduleValidation: fieldName => scheduleFieldValidation(formFields[fieldName]),
+    signal: validatorAbortController.signal,
+  });
+
+  if (!(validationResponse instanceof Promise)) {
+    return validationResponse;
+  }
+
+  const cachedValidationResponse = cacheConfig
+    ? validationResponse.then(validationResult => {
+        // The result is valid for the validated value even when the validation is superseded or timed out
+        writeFieldValidationCache(formField, formContext, cacheKey, validationResult, cacheConfig);
+
+        return validationResult;
+      })
+    : validationResponse;
+
+  return asyncValidationTimeout
+    ? limitFieldAsyncValidationTime(
+        formField,
+        cachedValidationResponse,
+        asyncValidationTimeout,
+        validatorAbortController,
+      )
+    : cachedValidationResponse;
 };
 
 /**
@@ -969,6 +1429,7 @@ const executeInternalFieldValidators = <
  *
  * @param {HoneyFormField<Form, FieldName, FormContext>} formField - The form field being validated.
  * @param {Promise<HoneyFormFieldValidationResult>} validationResponse - The promise representing the result of the validation.
+ * @param {AbortSignal} signal - The signal of the validation. The result is ignored when the validation is aborted.
  */
 const handleFieldAsyncValidationResult = <
   Form extends HoneyFormBaseForm,
@@ -977,12 +1438,22 @@ const handleFieldAsyncValidationResult = <
 >(
   formField: HoneyFormField<Form, FieldName, FormContext>,
   validationResponse: Promise<HoneyFormFieldValidationResult>,
+  signal: AbortSignal,
 ): Promise<void> =>
   validationResponse
     .then(validationResult => {
+      // The validation is superseded by a newer one, its result is stale
+      if (signal.aborted) {
+        return;
+      }
+
       if (validationResult) {
         if (Array.isArray(validationResult)) {
-          formField.addErrors(validationResult);
+          formField.addErrors(
+            validationResult.map(fieldError =>
+              resolveCustomFieldErrorMessage(formField, fieldError),
+            ),
+          );
           //
         } else if (typeof validationResult !== 'boolean') {
           formField.addError({
@@ -991,38 +1462,28 @@ const handleFieldAsyncValidationResult = <
           });
         }
       } else if (validationResult === false) {
-        formField.addError({
-          type: 'invalid',
-          message: formField.config.errorMessages?.invalid ?? 'Invalid value',
-        });
+        formField.addError(
+          resolveFieldErrorMessage(formField, {
+            type: 'invalid',
+            message: formField.config.errorMessages?.invalid ?? 'Invalid value',
+            code: 'invalid',
+          }),
+        );
       }
     })
     .catch((validationResult: Error) => {
-      formField.addError({
-        type: 'invalid',
-        message: formField.config.errorMessages?.invalid ?? validationResult.message,
-      });
-    });
-
-/**
- * Sanitizes the value of a form field based on its type.
- * If a convertor for the provided field type exists in the default map, it uses it to convert the value.
- * If a convertor does not exist, it returns the original value.
- */
-const sanitizeFieldValue = <
-  Form extends HoneyFormBaseForm,
-  FieldName extends keyof Form,
-  FieldValue extends Form[FieldName],
->(
-  fieldType: HoneyFormFieldType | undefined,
-  fieldValue: FieldValue | undefined,
-) => {
-  const valueConvertor = fieldType
-    ? (DEFAULT_FIELD_VALUE_CONVERTORS_MAP[fieldType] as HoneyFormFieldValueConvertor<FieldValue>)
-    : null;
+      if (signal.aborted) {
+        return;
+      }
 
-  return valueConvertor ? valueConvertor(fieldValue) : fieldValue;
-};
+      formField.addError(
+        resolveFieldErrorMessage(formField, {
+          type: 'invalid',
+          message: formField.config.errorMessages?.invalid ?? validationResult.message,
+          code: 'invalid',
+        }),
+      );
+    });
 
 /**
  * Options for executing the validator for a specific form field.
@@ -1093,6 +1554,14 @@ export const executeFieldValidator = <
 > => {
   let formField = formFields[fieldName];
 
+  // The pending validation is superseded by the current one.
+  // The state updaters can be called twice (e.g., in the strict mode), so the field state is checked as well
+  if (cancelFieldPendingValidation(formField) || formField.isValidating) {
+    formField = getNextAsyncValidatedField(formField);
+  }
+
+  const validationAbortController = new AbortController();
+
   const fieldErrors: HoneyFormFieldError[] = [];
 
   const sanitizedValue = sanitizeFieldValue(formField.config.type, fieldValue);
@@ -1102,31 +1571,43 @@ export const executeFieldValidator = <
     formFields,
     formField,
     sanitizedValue,
+    validationAbortController.signal,
   );
 
   // Do not run additional validators if the default field type validator failed
   if (validationResult === null || validationResult === true) {
-    executeInternalFieldValidators(sanitizedValue, formField.config, fieldErrors);
+    executeInternalFieldValidators(formContext, formFields, formField, sanitizedValue, fieldErrors);
+    executeFieldRules(formContext, formFields, formField, sanitizedValue, fieldErrors);
 
     // Execute custom validator. Can only run when the default validator returns true
-    if (formField.config.validator) {
-      const formValues = getFormValues(formFields);
-
-      const validationResponse = formField.config.validator(sanitizedValue, {
+    if (formField.config.validator && !checkIfFieldValidationIsStopped(formField, fieldErrors)) {
+      const validationResponse = executeFieldCustomValidator(
         formContext,
         formFields,
-        formValues,
-        // @ts-expect-error
-        fieldConfig: formField.config,
-        scheduleValidation: fieldName => scheduleFieldValidation(formFields[fieldName]),
-      });
+        formField,
+        sanitizedValue,
+        validationAbortController.signal,
+      );
 
       if (validationResponse instanceof Promise) {
         formField = getNextAsyncValidatingField(formField);
+        formField.__meta__.validationAbortController = validationAbortController;
 
-        handleFieldAsyncValidationResult(formField, validationResponse)
+        handleFieldAsyncValidationResult(
+          formField,
+          validationResponse,
+          validationAbortController.signal,
+        )
           .catch(noop)
-          .finally(() => finishFieldAsyncValidation?.(fieldName));
+          .finally(() => {
+            // The newer validation finishes the field validation
+            if (validationAbortController.signal.aborted) {
+              return;
+            }
+
+            formField.__meta__.validationAbortController = null;
+            finishFieldAsyncValidation?.(fieldName);
+          });
       } else {
         validationResult = validationResponse;
       }
@@ -1168,6 +1649,10 @@ type ExecuteFieldValidatorAsyncOptions<
    * The context of the form.
    */
   formContext: FormContext;
+  /**
+   * Optional function that runs the custom field validator when the limit of the concurrent asynchronous validations allows.
+   */
+  runAsyncValidation?: <T>(task: () => T | Promise<T>) => Promise<T>;
 };
 
 /**
@@ -1194,6 +1679,7 @@ export const executeFieldValidatorAsync = async <
   fieldName,
   formFields,
   formContext,
+  runAsyncValidation,
 }: ExecuteFieldValidatorAsyncOptions<
   ParentForm,
   ParentFieldName,
@@ -1201,7 +1687,15 @@ export const executeFieldValidatorAsync = async <
   FieldName,
   FormContext
 >): Promise<HoneyFormField<Form, FieldName, FormContext>> => {
-  const formField = formFields[fieldName];
+  let formField = formFields[fieldName];
+
+  // The pending validation is superseded by the current one.
+  // The state updaters can be called twice (e.g., in the strict mode), so the field state is checked as well
+  if (cancelFieldPendingValidation(formField) || formField.isValidating) {
+    formField = getNextAsyncValidatedField(formField);
+  }
+
+  const validationAbortController = new AbortController();
 
   const fieldErrors: HoneyFormFieldError[] = [];
 
@@ -1229,24 +1723,29 @@ export const executeFieldValidatorAsync = async <
     formFields,
     formField,
     sanitizedValue,
+    validationAbortController.signal,
   );
 
   // Do not run additional validators if the default field type validator failed
   if (validationResult === null || validationResult === true) {
-    executeInternalFieldValidators(sanitizedValue, formField.config, fieldErrors);
+    executeInternalFieldValidators(formContext, formFields, formField, sanitizedValue, fieldErrors);
+    executeFieldRules(formContext, formFields, formField, sanitizedValue, fieldErrors);
 
     // execute custom validator. Can be run only when default validator return true
-    if (formField.config.validator) {
-      const formValues = getFormValues(formFields);
+    if (formField.config.validator && !checkIfFieldValidationIsStopped(formField, fieldErrors)) {
+      const runCustomValidator = () =>
+        executeFieldCustomValidator(
+          formContext,
+          formFields,
+          formField,
+          sanitizedValue,
+          validationAbortController.signal,
+        );
 
-      const validationResponse = formField.config.validator(sanitizedValue, {
-        formContext,
-        formFields,
-        formValues,
-        // @ts-expect-error
-        fieldConfig: formField.config,
-        scheduleValidation: fieldName => scheduleFieldValidation(formFields[fieldName]),
-      });
+      // Only the custom validator can be asynchronous, so the concurrency limit is applied to it
+      const validationResponse = runAsyncValidation
+        ? runAsyncValidation(runCustomValidator)
+        : runCustomValidator();
 
       // If the validation response is a Promise, handle it asynchronously
       if (validationResponse instanceof Promise) {
@@ -1332,6 +1831,61 @@ const processSkippableFields = <
   });
 };
 
+type ProcessDynamicFieldsPropsOptions<Form extends HoneyFormBaseForm, FormContext> = {
+  /**
+   * The next state of the form fields.
+   */
+  nextFormFields: HoneyFormFields<Form, FormContext>;
+  /**
+   * The context of the form.
+   */
+  formContext: FormContext;
+};
+
+/**
+ * Re-evaluates the dynamic `required` option of the fields and reflects it in the `aria-required` field props.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FormContext - The context of the form.
+ *
+ * @param {ProcessDynamicFieldsPropsOptions<Form, FormContext>} options - The options for processing the dynamic fields props.
+ */
+export const processDynamicFieldsProps = <Form extends HoneyFormBaseForm, FormContext>({
+  nextFormFields,
+  formContext,
+}: ProcessDynamicFieldsPropsOptions<Form, FormContext>) => {
+  const formValues = getFormValues(nextFormFields);
+
+  forEachFormField(nextFormFields, (fieldName, formField) => {
+    if (typeof formField.config.required !== 'function') {
+      return;
+    }
+
+    const isRequired = resolveFieldConfigOption(formField.config.required, {
+      formContext,
+      formValues,
+      formFields: nextFormFields,
+    });
+
+    if (checkIfFieldIsInteractive(formField.config)) {
+      nextFormFields[fieldName] = {
+        ...formField,
+        props: { ...formField.props, 'aria-required': isRequired },
+      };
+    } else if (checkIfFieldIsPassive(formField.config)) {
+      nextFormFields[fieldName] = {
+        ...formField,
+        passiveProps: { ...formField.passiveProps, 'aria-required': isRequired },
+      };
+    } else if (checkIfFieldIsObject(formField.config)) {
+      nextFormFields[fieldName] = {
+        ...formField,
+        objectProps: { ...formField.objectProps, 'aria-required': isRequired },
+      };
+    }
+  });
+};
+
 /**
  * Reset all fields in the form, resetting their values to default value and removing errors.
  *
@@ -1352,14 +1906,18 @@ export const resetAllFields = <Form extends HoneyFormBaseForm, FormContext>(
  * Reset fields to default values that depend on the specified field,
  *  recursively resetting values to default value of nested dependencies.
  *
+ * @remarks
+ * The dependent fields are processed in the topological order of the form dependency graph,
+ * and each field is reset only once, so the circular dependencies or the `dependsOn` function that always returns `true`
+ * do not cause endless resetting.
+ *
  * @template Form - The form type.
  * @template FieldName - The name of the field to validate.
  * @template FormContext - The context of the form.
  *
  * @param {FormContext} formContext - The context of the form.
  * @param {HoneyFormFields<Form, FormContext>} nextFormFields - The next form fields state.
- * @param {keyof Form} fieldName - The name of the field triggering the resetting.
- * @param {keyof Form | null} initiatorFieldName - The name of the field that initiated the resetting (optional).
+ * @param {keyof Form} initiatorFieldName - The name of the field that initiated the resetting.
  */
 const resetDependentFields = <
   Form extends HoneyFormBaseForm,
@@ -1368,45 +1926,63 @@ const resetDependentFields = <
 >(
   formContext: FormContext,
   nextFormFields: HoneyFormFields<Form, FormContext>,
-  fieldName: FieldName,
-  initiatorFieldName: FieldName | null = null,
+  initiatorFieldName: FieldName,
 ) => {
-  initiatorFieldName = initiatorFieldName || fieldName;
+  const order = nextFormFields[initiatorFieldName].__meta__.form.dependencyGraph?.order ?? [];
 
-  forEachFormField(nextFormFields, otherFieldName => {
-    if (otherFieldName === fieldName) {
-      return;
-    }
+  // The fields that are not in the graph yet (e.g., added in the same render) are processed last
+  const getFieldOrderIndex = (fieldName: keyof Form) => {
+    const orderIndex = order.indexOf(fieldName as string);
 
-    const { dependsOn } = nextFormFields[otherFieldName].config;
+    return orderIndex === -1 ? order.length : orderIndex;
+  };
 
-    let isDependent: boolean;
+  const processedFieldNames = new Set<keyof Form>([initiatorFieldName]);
+  const changedFieldNames: (keyof Form)[] = [initiatorFieldName];
+  // The field which change caused the reset of each reset field
+  const resetCauseFieldNames = new Map<keyof Form, keyof Form>();
 
-    if (Array.isArray(dependsOn)) {
-      isDependent = dependsOn.includes(fieldName);
-      //
-    } else if (typeof dependsOn === 'function') {
-      const formValues = getFormValues(nextFormFields);
+  while (changedFieldNames.length) {
+    changedFieldNames.sort((a, b) => getFieldOrderIndex(a) - getFieldOrderIndex(b));
 
-      isDependent = dependsOn(initiatorFieldName, nextFormFields[otherFieldName].cleanValue, {
-        formContext,
-        formValues,
-        formFields: nextFormFields,
-      });
-    } else {
-      isDependent = fieldName === dependsOn;
-    }
+    const fieldName = changedFieldNames.shift();
+
+    forEachFormField(nextFormFields, otherFieldName => {
+      if (processedFieldNames.has(otherFieldName)) {
+        return;
+      }
 
-    if (isDependent) {
-      const otherField = nextFormFields[otherFieldName];
+      const { dependsOn } = nextFormFields[otherFieldName].config;
 
-      nextFormFields[otherFieldName] = getNextResetField(otherField, false);
+      let isDependent: boolean;
 
-      if (otherFieldName !== initiatorFieldName) {
-        resetDependentFields(formContext, nextFormFields, otherFieldName, fieldName);
+      if (Array.isArray(dependsOn)) {
+        isDependent = dependsOn.includes(fieldName);
+        //
+      } else if (typeof dependsOn === 'function') {
+        const formValues = getFormValues(nextFormFields);
+
+        // The function receives the field that caused the reset of the changed field (or the changed field itself)
+        const causeFieldName = resetCauseFieldNames.get(fieldName) ?? fieldName;
+
+        isDependent = dependsOn(causeFieldName, nextFormFields[otherFieldName].cleanValue, {
+          formContext,
+          formValues,
+          formFields: nextFormFields,
+        });
+      } else {
+        isDependent = fieldName === dependsOn;
       }
-    }
-  });
+
+      if (isDependent) {
+        nextFormFields[otherFieldName] = getNextResetField(nextFormFields[otherFieldName], false);
+
+        processedFieldNames.add(otherFieldName);
+        changedFieldNames.push(otherFieldName);
+        resetCauseFieldNames.set(otherFieldName, fieldName);
+      }
+    });
+  }
 };
 
 /**
@@ -1450,6 +2026,74 @@ type TriggerScheduledFieldsValidationsOptions<
   finishFieldAsyncValidation: HoneyFormFieldFinishAsyncValidation<Form, FieldName>;
 };
 
+/**
+ * Validates another field of the form after the change of the field.
+ *
+ * @template ParentForm - Type representing the parent form.
+ * @template ParentFieldName - The field name type for the parent form that will contain the array of child forms.
+ * @template Form - Type representing the entire form.
+ * @template FieldName - The name of the changed field.
+ * @template FormContext - The context of the form.
+ *
+ * @param {keyof Form} otherFieldName - The name of the field to validate.
+ * @param {TriggerScheduledFieldsValidationsOptions<ParentForm, ParentFieldName, Form, FieldName, FormContext>} options - The options for validating the field.
+ */
+const revalidateOtherField = <
+  ParentForm extends HoneyFormBaseForm,
+  ParentFieldName extends KeysWithArrayValues<ParentForm>,
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+>(
+  otherFieldName: keyof Form,
+  {
+    parentField,
+    nextFormFields,
+    formContext,
+    finishFieldAsyncValidation,
+  }: TriggerScheduledFieldsValidationsOptions<
+    ParentForm,
+    ParentFieldName,
+    Form,
+    FieldName,
+    FormContext
+  >,
+) => {
+  const nextFormField = nextFormFields[otherFieldName];
+
+  const isSkipField = checkIsSkipField({
+    parentField,
+    formContext,
+    formValues: getFormValues(nextFormFields),
+    fieldName: otherFieldName,
+    formFields: nextFormFields,
+  });
+
+  if (isSkipField) {
+    return;
+  }
+
+  let filteredValue: Form[keyof Form];
+
+  if (checkIfFieldIsInteractive(nextFormField.config) && nextFormField.config.filter) {
+    filteredValue = nextFormField.config.filter(nextFormField.rawValue, { formContext });
+    //
+  } else if (checkIfFieldIsNestedForms(nextFormField.config)) {
+    filteredValue = nextFormField.getChildFormsValues() as Form[keyof Form];
+    //
+  } else {
+    filteredValue = nextFormField.rawValue;
+  }
+
+  nextFormFields[otherFieldName] = executeFieldValidator({
+    formContext,
+    finishFieldAsyncValidation,
+    formFields: nextFormFields,
+    fieldName: otherFieldName,
+    fieldValue: filteredValue,
+  });
+};
+
 /**
  * Triggers validations for fields that have scheduled validations.
  *
@@ -1480,54 +2124,99 @@ const triggerScheduledFieldsValidations = <
   FieldName,
   FormContext
 >) => {
-  const formValues = getFormValues(nextFormFields);
-
   forEachFormField(nextFormFields, otherFieldName => {
     // Skip validations for the field triggering the change
     if (otherFieldName === fieldName) {
       return;
     }
 
-    const nextFormField = nextFormFields[otherFieldName];
-
     // Check if validation is scheduled for the field
-    if (nextFormField.__meta__.isValidationScheduled) {
-      const isSkipField = checkIsSkipField({
+    if (nextFormFields[otherFieldName].__meta__.isValidationScheduled) {
+      revalidateOtherField(otherFieldName, {
         parentField,
+        fieldName,
+        nextFormFields,
         formContext,
-        formValues,
-        fieldName: otherFieldName,
-        formFields: nextFormFields,
+        finishFieldAsyncValidation,
       });
 
-      if (!isSkipField) {
-        let filteredValue: Form[keyof Form];
-
-        if (checkIfFieldIsInteractive(nextFormField.config) && nextFormField.config.filter) {
-          filteredValue = nextFormField.config.filter(nextFormField.rawValue, { formContext });
-          //
-        } else if (checkIfFieldIsNestedForms(nextFormField.config)) {
-          filteredValue = nextFormField.getChildFormsValues() as Form[keyof Form];
-          //
-        } else {
-          filteredValue = nextFormField.rawValue;
-        }
-
-        nextFormFields[otherFieldName] = executeFieldValidator({
-          formContext,
-          finishFieldAsyncValidation,
-          formFields: nextFormFields,
-          fieldName: otherFieldName,
-          fieldValue: filteredValue,
-        });
-      }
-
       // Reset the validation scheduled flag for the field
       nextFormFields[otherFieldName].__meta__.isValidationScheduled = false;
     }
   });
 };
 
+/**
+ * Re-validates the fields that list the changed field in their `revalidateWith` option.
+ * The fields are re-validated in the order of the dependencies (the fields that depend on the re-validated fields are re-validated after them),
+ * and each field is re-validated only once, so the circular dependencies do not cause loops.
+ * Only the empty fields that were not changed by the user and have no errors are not re-validated to avoid showing the errors before the user fills them in.
+ * The fields with a value are re-validated regardless of how the value was set (by the user, `setFormValues()`, defaults or storage),
+ * but only when the change triggers their validation according to their `mode` and `revalidateMode`.
+ *
+ * @template ParentForm - Type representing the parent form.
+ * @template ParentFieldName - The field name type for the parent form that will contain the array of child forms.
+ * @template Form - Type representing the entire form.
+ * @template FieldName - The name of the changed field.
+ * @template FormContext - The context of the form.
+ *
+ * @param {TriggerScheduledFieldsValidationsOptions<ParentForm, ParentFieldName, Form, FieldName, FormContext>} options - The options for re-validating the fields.
+ */
+const revalidateDependentFields = <
+  ParentForm extends HoneyFormBaseForm,
+  ParentFieldName extends KeysWithArrayValues<ParentForm>,
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+>(
+  options: TriggerScheduledFieldsValidationsOptions<
+    ParentForm,
+    ParentFieldName,
+    Form,
+    FieldName,
+    FormContext
+  >,
+) => {
+  const { fieldName, nextFormFields } = options;
+
+  const visitedFieldNames = new Set<keyof Form>([fieldName]);
+  const changedFieldNames: (keyof Form)[] = [fieldName];
+
+  while (changedFieldNames.length) {
+    const changedFieldName = changedFieldNames.shift();
+
+    forEachFormField(nextFormFields, (otherFieldName, otherField) => {
+      if (visitedFieldNames.has(otherFieldName)) {
+        return;
+      }
+
+      const { revalidateWith } = otherField.config;
+
+      const isRevalidated = Array.isArray(revalidateWith)
+        ? revalidateWith.includes(changedFieldName)
+        : revalidateWith === changedFieldName;
+
+      if (!isRevalidated) {
+        return;
+      }
+
+      visitedFieldNames.add(otherFieldName);
+
+      if (
+        (!checkIfValueIsEmpty(otherField.rawValue) ||
+          otherField.__meta__.isLocallyChanged ||
+          otherField.errors.length) &&
+        // The field is re-validated according to its own `mode` and `revalidateMode` (e.g., not before the submit in the `submit` mode)
+        checkIfFieldValidationIsTriggered(otherField, 'change')
+      ) {
+        revalidateOtherField(otherFieldName, options);
+
+        changedFieldNames.push(otherFieldName);
+      }
+    });
+  }
+};
+
 /**
  * Options for determining the next state of a single form field.
  *
@@ -1638,6 +2327,13 @@ type NextFieldsStateOptions<
    * Flag indicating whether to format the form fields.
    */
   isFormat: boolean;
+  /**
+   * Flag indicating whether the field validation is debounced.
+   * The field is marked as validating, and the validation should be run later via the field `validate()` function.
+   *
+   * @default false
+   */
+  isDebounceValidation?: boolean;
   /**
    * Callback function to complete asynchronous validation for the field.
    *
@@ -1679,6 +2375,7 @@ export const getNextFieldsState = <
     formFields,
     isValidate,
     isFormat,
+    isDebounceValidation = false,
     finishFieldAsyncValidation,
   }: NextFieldsStateOptions<ParentForm, ParentFieldName, Form, FieldName, FormContext>,
 ): HoneyFormFields<Form, FormContext> => {
@@ -1705,13 +2402,26 @@ export const getNextFieldsState = <
   if (isValidate) {
     resetDependentFields(formContext, nextFormFields, fieldName);
 
-    nextFormField = executeFieldValidator({
-      formContext,
-      fieldName,
-      finishFieldAsyncValidation,
-      formFields: nextFormFields,
-      fieldValue: filteredValue,
-    });
+    if (isDebounceValidation) {
+      const { validationAbortController } = nextFormField.__meta__;
+
+      // The pending async validation is superseded by the debounced one.
+      // The debounce timeout itself is scheduled by the form after the next fields state is computed
+      if (validationAbortController) {
+        validationAbortController.abort();
+        nextFormField.__meta__.validationAbortController = null;
+      }
+
+      nextFormField = getNextAsyncValidatingField(nextFormField);
+    } else {
+      nextFormField = executeFieldValidator({
+        formContext,
+        fieldName,
+        finishFieldAsyncValidation,
+        formFields: nextFormFields,
+        fieldValue: filteredValue,
+      });
+    }
   }
 
   nextFormFields[fieldName] = getNextSingleFieldState(nextFormField, filteredValue, {
@@ -1720,6 +2430,18 @@ export const getNextFieldsState = <
   });
 
   processSkippableFields({ parentField, nextFormFields, formContext });
+  processDynamicFieldsProps({ nextFormFields, formContext });
+
+  if (isValidate) {
+    revalidateDependentFields({
+      parentField,
+      fieldName,
+      nextFormFields,
+      formContext,
+      finishFieldAsyncValidation,
+    });
+  }
+
   triggerScheduledFieldsValidations({
     parentField,
     fieldName,
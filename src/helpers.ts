@@ -1,6 +1,7 @@
 import React from 'react';
 import type {
   HoneyFormBaseForm,
+  HoneyFormStorageReadFailure,
   HoneyFormFields,
   HoneyFormField,
   HoneyFormChildFormContext,
@@ -24,6 +25,19 @@ import type {
   HoneyFormExtractChildForm,
   JSONValue,
   BaseHoneyFormFieldsConfigs,
+  HoneyFormUnfinishedForm,
+  HoneyFormStorageAdapter,
+  HoneyFormStoragePayload,
+  HoneyFormStorageMigrations,
+  HoneyFormOnStorageError,
+  HoneyFormFieldPersistConfig,
+  HoneyFormFieldType,
+  HoneyFormFieldValueConvertor,
+  HoneyFormFieldValidationTrigger,
+  HoneyFormDynamicFieldConfigOption,
+  HoneyFormDynamicFieldConfigOptionContext,
+  HoneyFormResolvedFieldConfig,
+  HoneyFormDependencyGraph,
 } from './types';
 import { HONEY_FORM_ERRORS } from './constants';
 
@@ -31,6 +45,20 @@ export const noop = () => {
   //
 };
 
+/**
+ * Replaces the `{param}` templates in the message with the values of the corresponding params.
+ * The templates without the corresponding param are kept as is.
+ *
+ * @param {string} message - The message with the templates, e.g. `"Must be at least {min} characters"`.
+ * @param {Record<string, unknown>} params - The values of the params.
+ *
+ * @returns {string} - The message with the replaced templates.
+ */
+export const interpolateMessage = (message: string, params: Record<string, unknown>): string =>
+  message.replace(/\{(\w+)\}/g, (template, paramName: string) =>
+    params[paramName] === undefined ? template : String(params[paramName]),
+  );
+
 export const genericMemo: <T>(component: T) => T = React.memo;
 
 export const warningMessage = (message: string) => {
@@ -43,6 +71,18 @@ export const errorMessage = (message: string) => {
   console.error(`[honey-form]: ${message}`);
 };
 
+// The `process.env.NODE_ENV` is replaced by the bundlers of the applications
+declare const process: { env: { NODE_ENV?: string } };
+
+/**
+ * Checks if the code runs in the development mode, where the additional diagnostics are reported.
+ * Without the `process` global (e.g., the browser without a bundler), the development mode is assumed.
+ *
+ * @returns {boolean} - `true` when `process.env.NODE_ENV` is not `production`.
+ */
+export const checkIfDevelopmentMode = (): boolean =>
+  typeof process === 'undefined' || process.env.NODE_ENV !== 'production';
+
 export const getHoneyFormUniqueId = () => {
   const timestamp = Date.now().toString();
   const randomNum = Math.floor(Math.random() * 10000)
@@ -99,7 +139,7 @@ export const mapServerErrors = <Form extends HoneyFormBaseForm>(
   ) => HoneyFormFieldError[],
 ): HoneyFormErrors<Form> =>
   Object.keys(serverErrors).reduce((nextFormErrors, erredFieldName: keyof Form) => {
-    nextFormErrors[erredFieldName] = callback(erredFieldName, serverErrors[erredFieldName]);
+    nextFormErrors[erredFieldName] = callback(erredFieldName, serverErrors[erredFieldName] ?? []);
 
     return nextFormErrors;
   }, {} as HoneyFormErrors<Form>);
@@ -144,6 +184,36 @@ export const forEachFormError = <Form extends HoneyFormBaseForm>(
   );
 };
 
+/**
+ * Separates the errors of the existing form fields from the errors of the fields that are not present in the form.
+ * The errors of the non-existing fields (e.g., returned by the server) are collected as the form root errors.
+ *
+ * @template Form - The type representing the form structure.
+ * @template FormContext - The type representing the context associated with the form.
+ *
+ * @param {HoneyFormFields<Form, FormContext>} formFields - An object containing the form fields.
+ * @param {HoneyFormErrors<Form>} formErrors - The form errors to separate.
+ *
+ * @returns {{ fieldsErrors: HoneyFormErrors<Form>, rootErrors: HoneyFormFieldError[] }} - The errors of the existing fields and the form root errors.
+ */
+export const separateFormRootErrors = <Form extends HoneyFormBaseForm, FormContext>(
+  formFields: HoneyFormFields<Form, FormContext>,
+  formErrors: HoneyFormErrors<Form>,
+) => {
+  const fieldsErrors: HoneyFormErrors<Form> = {};
+  const rootErrors: HoneyFormFieldError[] = [];
+
+  forEachFormError(formErrors, (erredFieldName, fieldErrors) => {
+    if (formFields[erredFieldName]) {
+      fieldsErrors[erredFieldName] = fieldErrors;
+    } else {
+      rootErrors.push(...fieldErrors);
+    }
+  });
+
+  return { fieldsErrors, rootErrors };
+};
+
 /**
  * Transforms each field in the provided form fields object by applying a callback function,
  * with an optional filter to exclude specific fields.
@@ -274,6 +344,186 @@ export const checkIfFieldIsNestedForms = <
 ): fieldConfig is HoneyFormNestedFormsFieldConfig<Form, FieldName, FormContext> =>
   fieldConfig.type === 'nestedForms';
 
+/**
+ * Resolves the field config option that can be a function of the form values to its current value.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FormContext - Contextual information for the form.
+ * @template Value - The type of the option value.
+ *
+ * @param {HoneyFormDynamicFieldConfigOption<Form, FormContext, Value>} option - The static value or the function.
+ * @param {HoneyFormDynamicFieldConfigOptionContext<Form, FormContext>} context - The form values and context.
+ *
+ * @returns {Value} - The current value of the option.
+ */
+export const resolveFieldConfigOption = <Form extends HoneyFormBaseForm, FormContext, Value>(
+  option: HoneyFormDynamicFieldConfigOption<Form, FormContext, Value>,
+  context: HoneyFormDynamicFieldConfigOptionContext<Form, FormContext>,
+): Value =>
+  typeof option === 'function'
+    ? (option as (context: HoneyFormDynamicFieldConfigOptionContext<Form, FormContext>) => Value)(
+        context,
+      )
+    : option;
+
+/**
+ * Resolves the dynamic `required`, `min` and `max` options of the field config to their current values.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FieldName - Name of the field in the form.
+ * @template FormContext - Contextual information for the form.
+ *
+ * @param {HoneyFormFieldConfig<Form, FieldName, FormContext>} fieldConfig - The field configuration.
+ * @param {HoneyFormDynamicFieldConfigOptionContext<Form, FormContext>} context - The form values and context.
+ *
+ * @returns {HoneyFormResolvedFieldConfig<HoneyFormFieldConfig<Form, FieldName, FormContext>>} - The resolved field configuration.
+ */
+export const resolveFieldConfig = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+>(
+  fieldConfig: HoneyFormFieldConfig<Form, FieldName, FormContext>,
+  context: HoneyFormDynamicFieldConfigOptionContext<Form, FormContext>,
+) =>
+  ({
+    ...fieldConfig,
+    required: resolveFieldConfigOption(fieldConfig.required, context),
+    ...('min' in fieldConfig && { min: resolveFieldConfigOption(fieldConfig.min, context) }),
+    ...('max' in fieldConfig && { max: resolveFieldConfigOption(fieldConfig.max, context) }),
+  }) as HoneyFormResolvedFieldConfig<HoneyFormFieldConfig<Form, FieldName, FormContext>>;
+
+const DEFAULT_FIELD_VALUE_CONVERTORS_MAP: Partial<
+  Record<HoneyFormFieldType, HoneyFormFieldValueConvertor<any>>
+> = {
+  number: (value: number | string | undefined) => {
+    if (typeof value === 'string' && value) {
+      // Try to replace thousands separators because they can be added by number filter
+      return Number(value.replace(/,/g, ''));
+    }
+
+    return typeof value === 'number' ? value : undefined;
+  },
+};
+
+/**
+ * Sanitizes the value of a form field based on its type.
+ * If a convertor for the provided field type exists in the default map, it uses it to convert the value.
+ * If a convertor does not exist, it returns the original value.
+ */
+export const sanitizeFieldValue = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FieldValue extends Form[FieldName],
+>(
+  fieldType: HoneyFormFieldType | undefined,
+  fieldValue: FieldValue | undefined,
+) => {
+  const valueConvertor = fieldType
+    ? (DEFAULT_FIELD_VALUE_CONVERTORS_MAP[fieldType] as HoneyFormFieldValueConvertor<FieldValue>)
+    : null;
+
+  return valueConvertor ? valueConvertor(fieldValue) : fieldValue;
+};
+
+/**
+ * Checks if the field value is empty: `undefined`, `null`, an empty string or an empty array.
+ *
+ * @param {unknown} fieldValue - The field value to check.
+ *
+ * @returns {boolean} - `true` when the value is empty.
+ */
+export const checkIfValueIsEmpty = (fieldValue: unknown): boolean =>
+  fieldValue === undefined ||
+  fieldValue === null ||
+  fieldValue === '' ||
+  (Array.isArray(fieldValue) && !fieldValue.length);
+
+/**
+ * Checks if the field error makes the field invalid.
+ * The errors with the 'warning' and 'info' severity are advisory and do not block the form submission.
+ *
+ * @param {HoneyFormFieldError} fieldError - The field error to check.
+ *
+ * @returns {boolean} - `true` when the error has the 'error' severity.
+ */
+export const checkIfFieldErrorIsBlocking = (fieldError: HoneyFormFieldError): boolean =>
+  (fieldError.severity ?? 'error') === 'error';
+
+/**
+ * The field errors with the default messages of the library validators (e.g., the cross-field validators).
+ * Only these messages are replaced by the `HoneyFormConfigProvider` messages,
+ * the messages of the errors returned by the custom validators are kept.
+ */
+const DEFAULT_MESSAGE_FIELD_ERRORS = new WeakSet<HoneyFormFieldError>();
+
+/**
+ * Marks the message of the field error as the default one, so it can be replaced by the configured messages.
+ *
+ * @param {HoneyFormFieldError} fieldError - The field error with the default message.
+ *
+ * @returns {HoneyFormFieldError} - The same field error.
+ */
+export const markFieldErrorMessageAsDefault = (
+  fieldError: HoneyFormFieldError,
+): HoneyFormFieldError => {
+  DEFAULT_MESSAGE_FIELD_ERRORS.add(fieldError);
+
+  return fieldError;
+};
+
+/**
+ * Checks if the message of the field error is the default one.
+ *
+ * @param {HoneyFormFieldError} fieldError - The field error to check.
+ *
+ * @returns {boolean} - `true` when the error was marked via `markFieldErrorMessageAsDefault`.
+ */
+export const checkIfFieldErrorMessageIsDefault = (fieldError: HoneyFormFieldError): boolean =>
+  DEFAULT_MESSAGE_FIELD_ERRORS.has(fieldError);
+
+/**
+ * Checks if the user interaction triggers the validation of the field value.
+ * The field without errors is validated according to its `mode`,
+ * and the field that already has blocking errors is re-validated according to its `revalidateMode`.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FieldName - Name of the field in the form.
+ * @template FormContext - Contextual information for the form.
+ *
+ * @param {HoneyFormField<Form, FieldName, FormContext>} formField - The form field which value is set.
+ * @param {HoneyFormFieldValidationTrigger} trigger - The user interaction that sets the value.
+ *
+ * @returns {boolean} - `true` when the field value should be validated.
+ */
+export const checkIfFieldValidationIsTriggered = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+>(
+  formField: HoneyFormField<Form, FieldName, FormContext>,
+  trigger: HoneyFormFieldValidationTrigger,
+): boolean => {
+  // The non-interactive fields (e.g., checkbox) are always validated on change
+  if (!checkIfFieldIsInteractive(formField.config)) {
+    return true;
+  }
+
+  const { mode = 'change', revalidateMode = 'change' } = formField.config;
+
+  // The advisory errors (warnings) do not make the field erred
+  if (formField.errors.some(checkIfFieldErrorIsBlocking)) {
+    return revalidateMode === 'change' || revalidateMode === trigger;
+  }
+
+  if (mode === 'touched') {
+    return trigger === 'blur' || formField.__meta__.isTouched;
+  }
+
+  // The value is validated on blur in the `change` mode too, e.g. after formatting on blur
+  return mode === 'change' || mode === trigger;
+};
+
 /**
  * Options object for determining whether to skip a form field.
  *
@@ -343,18 +593,90 @@ export const checkIsSkipField = <
  *
  * @template Form - The form type.
  * @template FieldName - The name of the field to validate.
+ * @template FormContext - The type representing the context associated with the form.
  *
- * @param {HoneyFormField<Form, FieldName>} formField - The form field for which validation is to be scheduled.
+ * @param {HoneyFormField<Form, FieldName, FormContext>} formField - The form field for which validation is to be scheduled.
  */
 export const scheduleFieldValidation = <
   Form extends HoneyFormBaseForm,
   FieldName extends keyof Form,
+  FormContext,
 >(
-  formField: HoneyFormField<Form, FieldName>,
+  formField: HoneyFormField<Form, FieldName, FormContext>,
 ) => {
   formField.__meta__.isValidationScheduled = true;
 };
 
+/**
+ * Cancels the pending validation of a specific form field: the debounced validation that is not started yet
+ * and the asynchronous validation in progress, so its result is not applied to the field.
+ *
+ * @template Form - The form type.
+ * @template FieldName - The name of the field.
+ * @template FormContext - The type representing the context associated with the form.
+ *
+ * @param {HoneyFormField<Form, FieldName, FormContext>} formField - The form field whose pending validation is to be cancelled.
+ *
+ * @returns {boolean} - `true` if any pending validation was cancelled, otherwise `false`.
+ */
+export const cancelFieldPendingValidation = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+>(
+  formField: HoneyFormField<Form, FieldName, FormContext>,
+): boolean => {
+  const { validationTimeoutId, validationAbortController } = formField.__meta__;
+
+  if (validationTimeoutId !== null) {
+    clearTimeout(validationTimeoutId);
+    formField.__meta__.validationTimeoutId = null;
+  }
+
+  if (validationAbortController) {
+    validationAbortController.abort();
+    formField.__meta__.validationAbortController = null;
+  }
+
+  return validationTimeoutId !== null || validationAbortController !== null;
+};
+
+/**
+ * Creates a function that runs the tasks limiting the number of the concurrently running tasks.
+ * The tasks over the limit wait until the running tasks are settled.
+ *
+ * @param {number | undefined} limit - The maximum number of the concurrently running tasks. No limit when not set.
+ *
+ * @returns {Function} - A function that runs the task when the limit allows and resolves to the task result.
+ */
+export const createConcurrencyLimiter = (limit: number | undefined) => {
+  let runningTasksCount = 0;
+  const pendingTasks: (() => void)[] = [];
+
+  return async <T>(task: () => T | Promise<T>): Promise<T> => {
+    if (limit && runningTasksCount >= limit) {
+      // The slot of the settled task is passed to the pending one
+      await new Promise<void>(resolve => {
+        pendingTasks.push(resolve);
+      });
+    } else {
+      runningTasksCount += 1;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const runNextTask = pendingTasks.shift();
+
+      if (runNextTask) {
+        runNextTask();
+      } else {
+        runningTasksCount -= 1;
+      }
+    }
+  };
+};
+
 /**
  * Retrieves the values of the form fields suitable for form submission.
  *
@@ -548,130 +870,600 @@ export const runChildFormsValidation = async <
   return hasErrors;
 };
 
-export const replaceHistoryState = (searchParams: URLSearchParams) => {
-  window.history.replaceState(
-    null,
-    '',
-    `${window.location.pathname}${searchParams.size > 0 ? `?${searchParams.toString()}` : ''}`,
-  );
-};
+/**
+ * Creates a serializer function that uses the `serializer` function from the field configuration when it is set.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FormContext - Optional context type for the form.
+ *
+ * @param {BaseHoneyFormFieldsConfigs<Form, FormContext>} fieldsConfigs - Configuration object for the form fields, including serializer functions.
+ *
+ * @returns {HoneyFormFieldSerializer<Form>} - The serializer function for the form fields.
+ */
+const createFormFieldSerializer =
+  <Form extends HoneyFormBaseForm, FormContext>(
+    fieldsConfigs: BaseHoneyFormFieldsConfigs<Form, FormContext>,
+  ): HoneyFormFieldSerializer<Form> =>
+  (fieldName, fieldValue) =>
+    // The field config can be absent when the form data includes unknown fields
+    fieldsConfigs[fieldName]?.serializer?.(fieldValue) ?? (fieldValue as JSONValue);
 
-export const checkQueryStringLimit = (searchParams: URLSearchParams) => {
-  let queryStringLimit = 0;
+/**
+ * Creates a deserializer function that uses the `deserializer` function from the field configuration when it is set.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FormContext - Optional context type for the form.
+ *
+ * @param {BaseHoneyFormFieldsConfigs<Form, FormContext>} fieldsConfigs - Configuration object for the form fields, including deserializer functions.
+ *
+ * @returns {HoneyFormFieldDeserializer<Form>} - The deserializer function for the form fields.
+ */
+const createFormFieldDeserializer =
+  <Form extends HoneyFormBaseForm, FormContext>(
+    fieldsConfigs: BaseHoneyFormFieldsConfigs<Form, FormContext>,
+  ): HoneyFormFieldDeserializer<Form> =>
+  (fieldName, rawValue) =>
+    // The field config can be absent when the stored data includes unknown fields
+    fieldsConfigs[fieldName]?.deserializer?.(rawValue) ?? (rawValue as Form[typeof fieldName]);
 
-  if (navigator.userAgent.includes('Firefox')) {
-    queryStringLimit = 65_000;
-    //
-  } else if (navigator.userAgent.includes('Chrome')) {
-    queryStringLimit = 80_000;
-    //
-  } else if (navigator.userAgent.includes('Opera')) {
-    queryStringLimit = 190_000;
+/**
+ * The structure of the field value saved to the storage when the field `persist` policy has the `ttl`.
+ */
+type HoneyFormPersistedFieldValue = {
+  value: JSONValue;
+  /**
+   * The timestamp in milliseconds when the saved field value expires.
+   */
+  expiresAt: number;
+};
+
+/**
+ * Gets the field persistence policy.
+ * The `file` fields are not saved to the storage by default.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FormContext - Optional context type for the form.
+ *
+ * @param {BaseHoneyFormFieldsConfigs<Form, FormContext>[keyof Form] | undefined} fieldConfig - The field configuration.
+ *
+ * @returns {HoneyFormFieldPersistConfig | null} - The field persistence policy, or null if the field value is not saved.
+ */
+const getFieldPersistConfig = <Form extends HoneyFormBaseForm, FormContext>(
+  fieldConfig: BaseHoneyFormFieldsConfigs<Form, FormContext>[keyof Form] | undefined,
+): HoneyFormFieldPersistConfig | null => {
+  // The saved form data can include unknown fields, which values are ignored
+  if (!fieldConfig) {
+    return null;
   }
 
-  if (queryStringLimit && searchParams.toString().length > queryStringLimit) {
-    warningMessage(
-      `The query string exceeds the limit of ${queryStringLimit} characters. This might cause unexpected behavior or errors. Please reduce the length of the query string.`,
-    );
+  const persist = fieldConfig.persist ?? fieldConfig.type !== 'file';
+  if (!persist) {
+    return null;
   }
+
+  return persist === true ? {} : persist;
 };
 
+const checkIsPersistedFieldValue = (value: JSONValue): value is HoneyFormPersistedFieldValue =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  'value' in value &&
+  typeof value.expiresAt === 'number';
+
 /**
- * Serializes a form object into a base64-encoded string.
+ * Serializes each form field value into a JSON-compatible value according to the field persistence policy.
  *
  * @template Form - Type representing the entire form.
+ * @template FormContext - Optional context type for the form.
  *
+ * @param {BaseHoneyFormFieldsConfigs<Form, FormContext>} fieldsConfigs - Configuration object for the form fields, including serializer functions.
  * @param {Form} formData - The form data to serialize.
- * @param {HoneyFormFieldSerializer<Form>} formFieldSerializer - The serializer function for the form fields.
+ * @param {number} savedAt - The timestamp in milliseconds when the form data is saved.
  *
- * @returns {string} - The base64-encoded string representing the serialized form data.
+ * @returns {Record<string, JSONValue>} - The object with serialized field values that should be saved.
  */
-const serializeForm = <Form extends HoneyFormBaseForm>(
+const serializeFormValues = <Form extends HoneyFormBaseForm, FormContext>(
+  fieldsConfigs: BaseHoneyFormFieldsConfigs<Form, FormContext>,
   formData: Form,
-  formFieldSerializer: HoneyFormFieldSerializer<Form>,
-): string =>
-  window.btoa(
-    encodeURI(
-      JSON.stringify(formData, (key: keyof Form, value: Form[keyof Form]) =>
-        formFieldSerializer(key, value),
-      ),
-    ),
+  savedAt: number,
+): Record<string, JSONValue> => {
+  const formFieldSerializer = createFormFieldSerializer(fieldsConfigs);
+
+  return Object.keys(formData).reduce<Record<string, JSONValue>>(
+    (result, fieldName: keyof Form) => {
+      const persistConfig = getFieldPersistConfig(fieldsConfigs[fieldName]);
+      if (!persistConfig) {
+        return result;
+      }
+
+      const serializedValue = formFieldSerializer(fieldName, formData[fieldName]);
+      const encodedValue =
+        persistConfig.encode && serializedValue !== undefined
+          ? persistConfig.encode(serializedValue)
+          : serializedValue;
+
+      result[fieldName as string] =
+        persistConfig.ttl === undefined
+          ? encodedValue
+          : { value: encodedValue, expiresAt: savedAt + persistConfig.ttl };
+
+      return result;
+    },
+    {},
   );
+};
+
+/**
+ * Strips the excluded and expired field values saved to the storage and decodes the encoded ones.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FormContext - Optional context type for the form.
+ *
+ * @param {BaseHoneyFormFieldsConfigs<Form, FormContext>} fieldsConfigs - Configuration object for the form fields.
+ * @param {Record<string, JSONValue>} rawFormData - The object with saved field values.
+ *
+ * @returns {Record<string, JSONValue>} - The object with raw field values that can be restored.
+ */
+const restorePersistedFormValues = <Form extends HoneyFormBaseForm, FormContext>(
+  fieldsConfigs: BaseHoneyFormFieldsConfigs<Form, FormContext>,
+  rawFormData: Record<string, JSONValue>,
+): Record<string, JSONValue> => {
+  const now = Date.now();
+
+  return Object.keys(rawFormData).reduce<Record<string, JSONValue>>((result, fieldName) => {
+    const persistConfig = getFieldPersistConfig(fieldsConfigs[fieldName as keyof Form]);
+    if (!persistConfig) {
+      return result;
+    }
+
+    let encodedValue = rawFormData[fieldName];
+
+    if (persistConfig.ttl !== undefined) {
+      // The value saved without the expiration time cannot be trusted
+      if (!checkIsPersistedFieldValue(encodedValue) || encodedValue.expiresAt <= now) {
+        return result;
+      }
+
+      encodedValue = encodedValue.value;
+    }
+
+    result[fieldName] =
+      persistConfig.decode && encodedValue !== undefined
+        ? persistConfig.decode(encodedValue)
+        : encodedValue;
+
+    return result;
+  }, {});
+};
 
 /**
- * Deserializes raw form data into a form object.
+ * Deserializes each raw field value into the form value.
  *
  * @template Form - Type representing the entire form.
  *
- * @param {string} rawFormData - The raw form data as a string.
+ * @param {Record<string, JSONValue>} rawFormData - The object with raw field values.
  * @param {HoneyFormFieldDeserializer<Form>} formFieldDeserializer - The deserializer function for the form fields.
  *
  * @returns {Form} - The deserialized form object.
  */
-const deserializeForm = <Form extends HoneyFormBaseForm>(
-  rawFormData: string,
+const deserializeFormValues = <Form extends HoneyFormBaseForm>(
+  rawFormData: Record<string, JSONValue>,
   formFieldDeserializer: HoneyFormFieldDeserializer<Form>,
 ): Form =>
-  JSON.parse(decodeURI(window.atob(rawFormData)), (key: keyof Form, value: JSONValue) =>
-    formFieldDeserializer(key, value),
-  ) as Form;
+  Object.keys(rawFormData).reduce((result, fieldName: keyof Form) => {
+    result[fieldName] = formFieldDeserializer(fieldName, rawFormData[fieldName as string]);
+
+    return result;
+  }, {} as Form);
+
+/**
+ * Removes the form values saved to the storage.
+ *
+ * @param {HoneyFormStorageAdapter} storageAdapter - The storage where the form values are saved.
+ * @param {string} formName - The name of the form which data should be removed.
+ */
+export const clearFormFromStorage = (storageAdapter: HoneyFormStorageAdapter, formName: string) => {
+  const result = storageAdapter.clear(formName);
+
+  if (result instanceof Promise) {
+    result.catch(() => {
+      errorMessage(`Unable to remove the form "${formName}" values from the storage.`);
+    });
+  }
+};
+
+/**
+ * Upgrades the serialized form values saved to the storage to the form storage version.
+ *
+ * @param {HoneyFormStoragePayload} payload - The form data returned from the storage adapter.
+ * @param {number} storageVersion - The current version of the form values schema.
+ * @param {HoneyFormStorageMigrations | undefined} storageMigrations - The migrations keyed by the version they upgrade from.
+ *
+ * @returns {Record<string, JSONValue>} - The serialized form values of the current version.
+ */
+const migrateStoragePayload = (
+  payload: HoneyFormStoragePayload,
+  storageVersion: number,
+  storageMigrations: HoneyFormStorageMigrations | undefined,
+): Record<string, JSONValue> => {
+  // The values saved without a version are treated as version `0`
+  let payloadVersion = payload.version ?? 0;
+  if (payloadVersion > storageVersion) {
+    throw new Error(
+      `[honey-form]: The saved form values version "${payloadVersion}" is newer than the storage version "${storageVersion}"`,
+    );
+  }
+
+  let { values } = payload;
+
+  while (payloadVersion < storageVersion) {
+    const storageMigration = storageMigrations?.[payloadVersion];
+    if (!storageMigration) {
+      throw new Error(
+        `[honey-form]: The storage migration from version "${payloadVersion}" is not found`,
+      );
+    }
+
+    values = storageMigration(values);
+    payloadVersion += 1;
+  }
+
+  return values;
+};
+
+type ReadFormFromStorageOptions = {
+  storageVersion: number;
+  storageMigrations: HoneyFormStorageMigrations | undefined;
+  onStorageError: HoneyFormOnStorageError | undefined;
+  /**
+   * Receives the synchronous read failure instead of handling it right away
+   * (e.g., to clear the storage and report the error after the form is mounted, not during the render).
+   */
+  onReadFailure?: (readFailure: HoneyFormStorageReadFailure) => void;
+};
+
+/**
+ * The functions to check whether the value restored from the storage matches the field type.
+ */
+const STORED_FIELD_VALUE_TYPE_CHECKERS: Record<HoneyFormFieldType, (value: unknown) => boolean> = {
+  string: value => typeof value === 'string' || typeof value === 'number',
+  numeric: value => typeof value === 'string' || typeof value === 'number',
+  number: value => typeof value === 'string' || typeof value === 'number',
+  email: value => typeof value === 'string',
+  checkbox: value => typeof value === 'boolean',
+  radio: value =>
+    typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean',
+  file: value => typeof value === 'object' && value !== null,
+  object: value => typeof value === 'object' && value !== null,
+  nestedForms: value => Array.isArray(value),
+};
+
+const checkIsStoragePayload = (payload: unknown): payload is HoneyFormStoragePayload =>
+  typeof payload === 'object' &&
+  payload !== null &&
+  'values' in payload &&
+  typeof payload.values === 'object' &&
+  payload.values !== null &&
+  !Array.isArray(payload.values);
+
+/**
+ * Removes the saved form data that cannot be restored and reports the error.
+ *
+ * @param {HoneyFormStorageAdapter} storageAdapter - The storage where the form values are saved.
+ * @param {string} formName - The name of the form.
+ * @param {unknown} error - The error that occurred while reading or restoring the form data.
+ * @param {unknown} rawPayload - The raw saved form data.
+ * @param {HoneyFormOnStorageError | undefined} onStorageError - The form storage error handler.
+ */
+export const handleStorageReadError = (
+  storageAdapter: HoneyFormStorageAdapter,
+  formName: string,
+  error: unknown,
+  rawPayload: unknown,
+  onStorageError: HoneyFormOnStorageError | undefined,
+) => {
+  // The saved form values cannot be restored anymore
+  clearFormFromStorage(storageAdapter, formName);
+
+  if (onStorageError) {
+    onStorageError(error instanceof Error ? error : new Error(String(error)), rawPayload);
+  } else {
+    errorMessage(`Unable to restore the form "${formName}" values from the storage.`);
+  }
+};
+
+/**
+ * Converts the storage payload into the unfinished form.
+ * The malformed payload or the payload that cannot be migrated or deserialized is removed from the storage.
+ * The unknown fields and the values that do not match the field type are ignored.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FormContext - Optional context type for the form.
+ *
+ * @param {HoneyFormStorageAdapter} storageAdapter - The storage where the form values are saved.
+ * @param {BaseHoneyFormFieldsConfigs<Form, FormContext>} fieldsConfigs - Configuration object for the form fields, including deserializer functions.
+ * @param {string} formName - The name of the form.
+ * @param {unknown} payload - The form data returned from the storage adapter.
+ * @param {ReadFormFromStorageOptions} options - The storage version, migrations and error handler.
+ *
+ * @returns {HoneyFormUnfinishedForm<Form> | undefined} - The unfinished form, or undefined if the payload is absent or cannot be restored.
+ */
+export const mapStoragePayloadToUnfinishedForm = <Form extends HoneyFormBaseForm, FormContext>(
+  storageAdapter: HoneyFormStorageAdapter,
+  fieldsConfigs: BaseHoneyFormFieldsConfigs<Form, FormContext>,
+  formName: string,
+  payload: unknown,
+  { storageVersion, storageMigrations, onStorageError, onReadFailure }: ReadFormFromStorageOptions,
+): HoneyFormUnfinishedForm<Form> | undefined => {
+  if (payload === undefined || payload === null) {
+    return undefined;
+  }
+
+  try {
+    if (!checkIsStoragePayload(payload)) {
+      throw new Error('[honey-form]: The saved form data is malformed');
+    }
+
+    const formValues = deserializeFormValues(
+      restorePersistedFormValues(
+        fieldsConfigs,
+        migrateStoragePayload(payload, storageVersion, storageMigrations),
+      ),
+      createFormFieldDeserializer(fieldsConfigs),
+    );
+
+    Object.keys(formValues).forEach((fieldName: keyof Form) => {
+      const fieldValue = formValues[fieldName];
+
+      if (
+        fieldValue !== undefined &&
+        !STORED_FIELD_VALUE_TYPE_CHECKERS[fieldsConfigs[fieldName].type](fieldValue)
+      ) {
+        warningMessage(
+          `The saved value of the field "${fieldName.toString()}" does not match the field type "${fieldsConfigs[fieldName].type}" and is ignored.`,
+        );
+
+        delete formValues[fieldName];
+      }
+    });
+
+    return {
+      savedAt: typeof payload.savedAt === 'number' ? new Date(payload.savedAt) : undefined,
+      values: formValues,
+    };
+  } catch (e) {
+    if (onReadFailure) {
+      onReadFailure({ error: e, rawPayload: payload });
+    } else {
+      handleStorageReadError(storageAdapter, formName, e, payload, onStorageError);
+    }
+
+    return undefined;
+  }
+};
+
+/**
+ * Gets the raw saved form data attached to the error thrown by the storage adapter.
+ *
+ * @param {unknown} error - The error thrown by the storage adapter.
+ *
+ * @returns {unknown} - The raw saved form data, or undefined if it is not attached.
+ */
+const getStorageErrorRawPayload = (error: unknown): unknown =>
+  typeof error === 'object' && error !== null && 'rawPayload' in error
+    ? error.rawPayload
+    : undefined;
+
+/**
+ * Reads the form values saved to the storage and upgrades them to the form storage version.
+ * The result is a Promise when the storage adapter reads the form data asynchronously.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FormContext - Optional context type for the form.
+ *
+ * @param {HoneyFormStorageAdapter} storageAdapter - The storage where the form values are saved.
+ * @param {BaseHoneyFormFieldsConfigs<Form, FormContext>} fieldsConfigs - Configuration object for the form fields, including deserializer functions.
+ * @param {string} formName - The name of the form to read.
+ * @param {ReadFormFromStorageOptions} options - The storage version, migrations and error handler.
+ *
+ * @returns {HoneyFormUnfinishedForm<Form> | undefined | Promise<HoneyFormUnfinishedForm<Form> | undefined>} -
+ *  The saved form, or undefined if the form data is not found in the storage or cannot be restored.
+ */
+export const readFormFromStorage = <Form extends HoneyFormBaseForm, FormContext = undefined>(
+  storageAdapter: HoneyFormStorageAdapter,
+  fieldsConfigs: BaseHoneyFormFieldsConfigs<Form, FormContext>,
+  formName: string,
+  options: ReadFormFromStorageOptions,
+):
+  | HoneyFormUnfinishedForm<Form>
+  | undefined
+  | Promise<HoneyFormUnfinishedForm<Form> | undefined> => {
+  let payload: ReturnType<HoneyFormStorageAdapter['read']>;
+
+  try {
+    payload = storageAdapter.read(formName);
+  } catch (e) {
+    const rawPayload = getStorageErrorRawPayload(e);
+
+    if (options.onReadFailure) {
+      options.onReadFailure({ error: e, rawPayload });
+    } else {
+      handleStorageReadError(storageAdapter, formName, e, rawPayload, options.onStorageError);
+    }
+
+    return undefined;
+  }
+
+  if (payload instanceof Promise) {
+    // The asynchronous read errors are handled right away, since they occur outside the render
+    return payload.then(
+      resolvedPayload =>
+        mapStoragePayloadToUnfinishedForm(
+          storageAdapter,
+          fieldsConfigs,
+          formName,
+          resolvedPayload,
+          { ...options, onReadFailure: undefined },
+        ),
+      (e: unknown) => {
+        handleStorageReadError(
+          storageAdapter,
+          formName,
+          e,
+          getStorageErrorRawPayload(e),
+          options.onStorageError,
+        );
+
+        return undefined;
+      },
+    );
+  }
+
+  return mapStoragePayloadToUnfinishedForm(
+    storageAdapter,
+    fieldsConfigs,
+    formName,
+    payload,
+    options,
+  );
+};
 
 /**
- * Serializes form data and stores it in the query string under the specified form name.
+ * Serializes form data and saves it to the storage under the specified form name.
  *
  * @template Form - Type representing the entire form.
  * @template FormContext - Optional context type for the form.
  *
+ * @param {HoneyFormStorageAdapter} storageAdapter - The storage where the form values should be saved.
  * @param {BaseHoneyFormFieldsConfigs<Form, FormContext>} fieldsConfigs - Configuration object for the form fields, including serializer functions.
- * @param {string} formName - The name to use as the key in the query string.
- * @param {Form} formData - The form data to serialize and store in the query string.
+ * @param {string} formName - The name of the form to save.
+ * @param {number} storageVersion - The current version of the form values schema.
+ * @param {Form} formData - The form data to serialize and save.
  */
-export const serializeFormToQueryString = <Form extends HoneyFormBaseForm, FormContext = undefined>(
+export const writeFormToStorage = <Form extends HoneyFormBaseForm, FormContext = undefined>(
+  storageAdapter: HoneyFormStorageAdapter,
   fieldsConfigs: BaseHoneyFormFieldsConfigs<Form, FormContext>,
   formName: string,
+  storageVersion: number,
   formData: Form,
 ) => {
-  const searchParams = new URLSearchParams(window.location.search);
+  const savedAt = Date.now();
 
-  searchParams.set(
-    formName,
-    serializeForm(
-      formData,
-      (fieldName, fieldValue) =>
-        fieldsConfigs[fieldName].serializer?.(fieldValue) ?? (fieldValue as JSONValue),
-    ),
-  );
+  const result = storageAdapter.write(formName, {
+    version: storageVersion,
+    savedAt,
+    values: serializeFormValues(fieldsConfigs, formData, savedAt),
+  });
 
-  checkQueryStringLimit(searchParams);
-  replaceHistoryState(searchParams);
+  if (result instanceof Promise) {
+    result.catch(() => {
+      errorMessage(`Unable to save the form "${formName}" values to the storage.`);
+    });
+  }
 };
 
 /**
- * Deserializes a form from a query string.
+ * Gets the form values from the query string search parameters mapped to the form fields.
  *
  * @template Form - Type representing the entire form.
  * @template FormContext - Optional context type for the form.
  *
  * @param {BaseHoneyFormFieldsConfigs<Form, FormContext>} fieldsConfigs - Configuration object for the form fields, including deserializer functions.
- * @param {string} formName - The name of the form to deserialize.
+ * @param {Record<string, keyof Form>} prefillFromSearchParams - The map of search parameters names to the form fields names.
  *
- * @returns {Form | undefined} - The deserialized form object, or undefined if the form data is not found in the query string.
+ * @returns {Partial<Form>} - The form values from the search parameters that are present in the query string.
  */
-export const deserializeFormFromQueryString = <
-  Form extends HoneyFormBaseForm,
-  FormContext = undefined,
->(
+export const getPrefilledFormValues = <Form extends HoneyFormBaseForm, FormContext = undefined>(
   fieldsConfigs: BaseHoneyFormFieldsConfigs<Form, FormContext>,
-  formName: string,
-): Form | undefined => {
+  prefillFromSearchParams: Record<string, keyof Form>,
+): Partial<Form> => {
   const searchParams = new URLSearchParams(window.location.search);
-  const rawFormData = searchParams.get(formName);
+  const formFieldDeserializer = createFormFieldDeserializer(fieldsConfigs);
 
-  return rawFormData
-    ? deserializeForm(
-        rawFormData,
-        (fieldName, rawValue) =>
-          fieldsConfigs[fieldName].deserializer?.(rawValue) ?? (rawValue as Form[typeof fieldName]),
-      )
-    : undefined;
+  return Object.keys(prefillFromSearchParams).reduce<Partial<Form>>((result, paramName) => {
+    const rawValue = searchParams.get(paramName);
+
+    if (rawValue !== null) {
+      const fieldName = prefillFromSearchParams[paramName];
+      // Hand-written links contain plain text values, so they are passed to the deserializer as is
+      result[fieldName] = formFieldDeserializer(fieldName, rawValue);
+    }
+
+    return result;
+  }, {});
+};
+
+/**
+ * Builds the graph of the static `dependsOn` dependencies between the form fields and detects the circular dependencies.
+ * The dependencies of the fields with the `dependsOn` function cannot be known in advance, so such fields are only listed.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FormContext - Optional context type for the form.
+ *
+ * @param {BaseHoneyFormFieldsConfigs<Form, FormContext>} fieldsConfigs - Configuration object for the form fields.
+ *
+ * @returns {HoneyFormDependencyGraph<Form>} - The dependency graph of the form fields.
+ */
+export const getFormDependencyGraph = <Form extends HoneyFormBaseForm, FormContext = undefined>(
+  fieldsConfigs: BaseHoneyFormFieldsConfigs<Form, FormContext>,
+): HoneyFormDependencyGraph<Form> => {
+  const fieldNames: (keyof Form)[] = Object.keys(fieldsConfigs);
+
+  const dependents: Partial<Record<keyof Form, (keyof Form)[]>> = {};
+  const dynamicFields: (keyof Form)[] = [];
+
+  fieldNames.forEach(fieldName => {
+    const { dependsOn } = fieldsConfigs[fieldName];
+
+    if (typeof dependsOn === 'function') {
+      dynamicFields.push(fieldName);
+      return;
+    }
+
+    if (dependsOn === undefined) {
+      return;
+    }
+
+    (Array.isArray(dependsOn) ? dependsOn : [dependsOn]).forEach(dependencyFieldName => {
+      dependents[dependencyFieldName] = [...(dependents[dependencyFieldName] ?? []), fieldName];
+    });
+  });
+
+  const order: (keyof Form)[] = [];
+  const cycles: (keyof Form)[][] = [];
+
+  const visitedFieldNames = new Set<keyof Form>();
+  // The fields of the current depth-first search path
+  const pathFieldNames: (keyof Form)[] = [];
+
+  const visitField = (fieldName: keyof Form) => {
+    const pathIndex = pathFieldNames.indexOf(fieldName);
+    if (pathIndex !== -1) {
+      cycles.push([...pathFieldNames.slice(pathIndex), fieldName]);
+      return;
+    }
+
+    if (visitedFieldNames.has(fieldName)) {
+      return;
+    }
+
+    visitedFieldNames.add(fieldName);
+    pathFieldNames.push(fieldName);
+
+    dependents[fieldName]?.forEach(visitField);
+
+    pathFieldNames.pop();
+    // The reversed post-order of the depth-first search is the topological order
+    order.unshift(fieldName);
+  };
+
+  fieldNames.forEach(visitField);
+
+  return {
+    dependents,
+    dynamicFields,
+    order,
+    cycles,
+  };
 };
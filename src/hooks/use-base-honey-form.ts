@@ -16,6 +16,7 @@ import type {
   HoneyFormValidateField,
   HoneyFormAddFormField,
   HoneyFormClearErrors,
+  HoneyFormClearRootErrors,
   HoneyFormRemoveFormField,
   HoneyFormReset,
   HoneyFormSetFormErrors,
@@ -25,6 +26,14 @@ import type {
   HoneyFormErrors,
   KeysWithArrayValues,
   HoneyFormRestoreUnfinishedForm,
+  HoneyFormDiscardUnfinishedForm,
+  HoneyFormUnfinishedForm,
+  HoneyFormFieldError,
+  HoneyFormMeta,
+  HoneyFormDependencyGraph,
+  HoneyFormValidatorResult,
+  BaseHoneyFormFieldsConfigs,
+  HoneyFormStorageReadFailure,
 } from '../types';
 import {
   resetAllFields,
@@ -36,6 +45,7 @@ import {
   getNextErrorsFreeField,
   getNextSingleFieldState,
   getNextAsyncValidatedField,
+  processDynamicFieldsProps,
 } from '../field';
 import {
   checkIfFieldIsInteractive,
@@ -47,13 +57,27 @@ import {
   checkIsSkipField,
   mapFormFields,
   mapServerErrors,
+  separateFormRootErrors,
   runChildFormsValidation,
+  createConcurrencyLimiter,
+  checkIfFieldErrorIsBlocking,
+  checkIfFieldValidationIsTriggered,
+  cancelFieldPendingValidation,
+  forEachFormField,
   warningMessage,
   errorMessage,
-  deserializeFormFromQueryString,
-  serializeFormToQueryString,
+  checkIfDevelopmentMode,
+  getFormDependencyGraph,
+  readFormFromStorage,
+  writeFormToStorage,
+  clearFormFromStorage,
+  handleStorageReadError,
+  getPrefilledFormValues,
+  mapStoragePayloadToUnfinishedForm,
 } from '../helpers';
 import { HONEY_FORM_ERRORS } from '../constants';
+import { getFormStorageAdapter } from '../storage';
+import { useHoneyFormConfig } from '../components/honey-form-config.provider';
 
 const FORM_DEFAULTS = {};
 
@@ -79,38 +103,100 @@ export const useBaseHoneyForm = <
   validateExternalValues = false,
   alwaysValidateParentField = false,
   storage,
+  storageVersion = 0,
+  storageMigrations,
+  onStorageError,
+  prefillFromSearchParams,
+  syncAcrossTabs = false,
+  syncWithNavigation = false,
   context: formContext,
+  validator,
+  asyncValidationTimeout,
+  maxConcurrentAsyncValidations,
+  mode,
+  revalidateMode,
   onSubmit,
   onChange,
   onChangeDebounce = 0,
 }: FormOptions<ParentForm, ParentFieldName, Form, FormContext>) => {
   const formIdRef = useRef<HoneyFormId | null>(null);
+  const formConfig = useHoneyFormConfig();
+
+  const formMetaRef = useRef<HoneyFormMeta>({
+    asyncValidationTimeout,
+    config: formConfig,
+    mode,
+    revalidateMode,
+    // The dependency graph is built from the form fields when they are created
+    dependencyGraph: null,
+  });
+  // The form meta is shared with the fields, so the latest options are kept in it.
+  // The `mode` and `revalidateMode` are not refreshed, they are applied to the field configs when the form is created
+  formMetaRef.current.asyncValidationTimeout = asyncValidationTimeout;
+  formMetaRef.current.config = formConfig;
 
   const [formState, setFormState] = useState<HoneyFormState>(INITIAL_FORM_STATE);
 
   const [isFormDefaultsFetching, setIsFormDefaultsFetching] = useState(false);
   const [isFormDefaultsFetchingErred, setIsFormDefaultsFetchingErred] = useState(false);
 
+  const [formRootErrors, setFormRootErrors] = useState<HoneyFormFieldError[]>([]);
+
+  const [storageAdapter] = useState(() => (storage ? getFormStorageAdapter(storage) : null));
+
+  const storageReadFailureRef = useRef<HoneyFormStorageReadFailure | null>(null);
+
+  const [storedForm] = useState(() =>
+    // Child forms save their values through the parent form
+    storageAdapter && formName && (readDefaultsFromStorage || !parentField)
+      ? readFormFromStorage(storageAdapter, fieldsConfigs, formName, {
+          storageVersion,
+          storageMigrations,
+          onStorageError,
+          // The storage is cleared and the error is reported after mounting, not during the render
+          onReadFailure: readFailure => {
+            storageReadFailureRef.current = readFailure;
+          },
+        })
+      : undefined,
+  );
+
+  const [prefilledFormValues] = useState<Partial<Form>>(() =>
+    prefillFromSearchParams ? getPrefilledFormValues(fieldsConfigs, prefillFromSearchParams) : {},
+  );
+
   const [formDefaults] = useState<HoneyFormDefaultValues<Form>>(() => {
-    if (readDefaultsFromStorage && formName) {
-      if (storage === 'qs') {
-        // Defaults from storage can extend/override the defaults set via property
-        return { ...defaults, ...deserializeFormFromQueryString(fieldsConfigs, formName) };
-      }
+    if (readDefaultsFromStorage && storedForm && !(storedForm instanceof Promise)) {
+      // Defaults from storage can extend/override the defaults set via property
+      return { ...defaults, ...storedForm.values, ...prefilledFormValues };
     }
 
-    return typeof defaults === 'function' ? {} : { ...defaults };
+    return typeof defaults === 'function'
+      ? { ...prefilledFormValues }
+      : { ...defaults, ...prefilledFormValues };
   });
 
+  const [unfinishedForm, setUnfinishedForm] = useState<HoneyFormUnfinishedForm<Form> | null>(() => {
+    // The saved form values are already applied as defaults when reading defaults from storage
+    if (readDefaultsFromStorage || !storedForm || storedForm instanceof Promise) {
+      return null;
+    }
+
+    return Object.keys(storedForm.values).length ? storedForm : null;
+  });
+
+  const unfinishedFormRef = useRef(unfinishedForm);
+  unfinishedFormRef.current = unfinishedForm;
+
   const formDefaultsRef = useRef<HoneyFormDefaultValues<Form>>(formDefaults);
   const formFieldsRef = useRef<HoneyFormFields<Form, FormContext> | null>(null);
   const formValuesRef = useRef<Form | null>(null);
   const formErrorsRef = useRef<HoneyFormErrors<Form> | null>(null);
   const isFormDirtyRef = useRef(false);
   const isFormValidRef = useRef(false);
-  const isUnfinishedFormDetected = useRef(false);
   const isFormSubmittedRef = useRef(false);
   const onChangeTimeoutRef = useRef<number | null>(null);
+  const formValidatorRootErrorsRef = useRef<HoneyFormFieldError[]>([]);
 
   const updateFormState = useCallback((newFormState: Partial<HoneyFormState>) => {
     setFormState(prevFormState => ({ ...prevFormState, ...newFormState }));
@@ -139,12 +225,11 @@ export const useBaseHoneyForm = <
 
     const nextFormFields = fn();
 
-    if (!parentField) {
-      if (storage === 'qs') {
-        const formValues = getSubmitFormValues(parentField, formContext, nextFormFields);
+    // The detected unfinished form must not be overwritten until it is restored or discarded
+    if (storageAdapter && !parentField && formName && !unfinishedFormRef.current) {
+      const formValues = getSubmitFormValues(parentField, formContext, nextFormFields);
 
-        serializeFormToQueryString(fieldsConfigs, formName, formValues);
-      }
+      writeFormToStorage(storageAdapter, fieldsConfigs, formName, storageVersion, formValues);
     }
 
     // If `onChange` is provided, set a timeout for debouncing and call `onChange` after the timeout.
@@ -217,6 +302,8 @@ export const useBaseHoneyForm = <
             });
           });
 
+          processDynamicFieldsProps({ nextFormFields, formContext });
+
           formFieldsRef.current = nextFormFields;
           return nextFormFields;
         }, isSkipOnChange),
@@ -230,11 +317,20 @@ export const useBaseHoneyForm = <
   );
 
   const setFormErrors = useCallback<HoneyFormSetFormErrors<Form>>(formErrors => {
+    if (!formFieldsRef.current) {
+      throw new Error(HONEY_FORM_ERRORS.emptyFormFieldsRef);
+    }
+
+    const { fieldsErrors, rootErrors } = separateFormRootErrors(formFieldsRef.current, formErrors);
+    if (rootErrors.length) {
+      setFormRootErrors(rootErrors);
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-use-before-define
     setFormFields(formFields => {
       const nextFormFields = { ...formFields };
 
-      forEachFormError(formErrors, (fieldName, fieldErrors) => {
+      forEachFormError(fieldsErrors, (fieldName, fieldErrors) => {
         nextFormFields[fieldName] = getNextErredField(nextFormFields[fieldName], fieldErrors);
       });
 
@@ -253,6 +349,12 @@ export const useBaseHoneyForm = <
       formFieldsRef.current = nextFormFields;
       return nextFormFields;
     });
+
+    setFormRootErrors([]);
+  }, []);
+
+  const clearFormRootErrors = useCallback<HoneyFormClearRootErrors>(() => {
+    setFormRootErrors([]);
   }, []);
 
   const finishFieldAsyncValidation: HoneyFormFieldFinishAsyncValidation<Form> = fieldName => {
@@ -276,7 +378,14 @@ export const useBaseHoneyForm = <
   const setFieldValue: HoneyFormFieldSetInternalValue<Form> = (
     fieldName,
     fieldValue,
-    { isValidate = true, isDirty = true, isFormat = true, isPushValue = false } = {},
+    {
+      isValidate = true,
+      isDirty = true,
+      isFormat = true,
+      isPushValue = false,
+      isDebounceValidation = false,
+      trigger,
+    } = {},
   ) => {
     // Any new field value clears the next form states
     isFormValidRef.current = false;
@@ -286,12 +395,36 @@ export const useBaseHoneyForm = <
       isFormDirtyRef.current = true;
     }
 
+    if (!formFieldsRef.current) {
+      throw new Error(HONEY_FORM_ERRORS.emptyFormFieldsRef);
+    }
+
+    // The field meta is shared by all states of the field, so it is updated once outside the state updater
+    const { config: fieldConfig, __meta__: fieldMeta } = formFieldsRef.current[fieldName];
+
+    fieldMeta.isLocallyChanged = true;
+
+    if (trigger === 'blur') {
+      fieldMeta.isTouched = true;
+    }
+
+    const validationDebounce =
+      isDebounceValidation && checkIfFieldIsInteractive(fieldConfig)
+        ? (fieldConfig.validationDebounce ?? 0)
+        : 0;
+
     // eslint-disable-next-line @typescript-eslint/no-use-before-define
     setFormFields(formFields =>
       debouncedOnChangeHandler(() => {
         const formField = formFields[fieldName];
 
-        const isFieldErred = formField.errors.length > 0;
+        const isFieldErred = formField.errors.some(checkIfFieldErrorIsBlocking);
+
+        // The user interactions validate the field according to its modes.
+        // Otherwise, the field is validated if forced or re-validated if it previously had errors
+        const isValidateFieldValue = trigger
+          ? checkIfFieldValidationIsTriggered(formField, trigger)
+          : isValidate || (isFieldErred && checkIfFieldValidationIsTriggered(formField, 'change'));
 
         const nextFormFields = getNextFieldsState(
           fieldName,
@@ -303,11 +436,19 @@ export const useBaseHoneyForm = <
             formFields,
             isFormat,
             finishFieldAsyncValidation,
-            // Re-validate the field immediately if it previously had errors or if forced to validate
-            isValidate: isValidate || isFieldErred,
+            isValidate: isValidateFieldValue,
+            isDebounceValidation: validationDebounce > 0,
           },
         );
 
+        // The local change replaces the remote changes of the field in the storage
+        if (nextFormFields[fieldName].hasRemoteChanges) {
+          nextFormFields[fieldName] = {
+            ...nextFormFields[fieldName],
+            hasRemoteChanges: false,
+          };
+        }
+
         if (parentField) {
           if (
             alwaysValidateParentField ||
@@ -321,8 +462,6 @@ export const useBaseHoneyForm = <
           }
         }
 
-        const fieldConfig = nextFormFields[fieldName].config;
-
         if (fieldConfig.onChange) {
           window.setTimeout(() => {
             const cleanValue = checkIfFieldIsNestedForms(fieldConfig)
@@ -339,6 +478,23 @@ export const useBaseHoneyForm = <
         return nextFormFields;
       }),
     );
+
+    if (validationDebounce > 0) {
+      // The previous debounced validation is superseded by the current one
+      if (fieldMeta.validationTimeoutId !== null) {
+        clearTimeout(fieldMeta.validationTimeoutId);
+      }
+
+      fieldMeta.validationTimeoutId = window.setTimeout(() => {
+        // The field waits for the debounced validation only when the change triggered its validation
+        if (formFieldsRef.current?.[fieldName]?.isValidating) {
+          // eslint-disable-next-line @typescript-eslint/no-use-before-define
+          validateField(fieldName);
+        } else {
+          fieldMeta.validationTimeoutId = null;
+        }
+      }, validationDebounce);
+    }
   };
 
   const clearFieldErrors: HoneyFormFieldClearErrors<Form> = fieldName => {
@@ -397,6 +553,7 @@ export const useBaseHoneyForm = <
         formFields,
         fieldName,
         fieldValue: filteredValue,
+        finishFieldAsyncValidation,
       });
 
       const nextFormFields = {
@@ -410,6 +567,12 @@ export const useBaseHoneyForm = <
   };
 
   const addFormFieldErrors = useCallback<HoneyFormFieldAddErrors<Form>>((fieldName, errors) => {
+    // The server can return the errors of non-existing form fields, such errors become the form root errors
+    if (!formFieldsRef.current?.[fieldName]) {
+      setFormRootErrors(prevFormRootErrors => [...prevFormRootErrors, ...errors]);
+      return;
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-use-before-define
     setFormFields(formFields => {
       const formField = formFields[fieldName];
@@ -418,8 +581,7 @@ export const useBaseHoneyForm = <
         ...formFields,
         [fieldName]: {
           ...formField,
-          // When the form can have alien field errors when the server can return non-existed form fields
-          errors: [...(formField?.errors ?? []), ...errors],
+          errors: [...formField.errors, ...errors],
         },
       };
 
@@ -441,7 +603,7 @@ export const useBaseHoneyForm = <
           warningMessage(`Form field "${fieldName.toString()}" is already present.`);
         }
 
-        const nextFormFields = {
+        const nextFormFields: HoneyFormFields<Form, FormContext> = {
           ...formFields,
           [fieldName]: createField(fieldName, fieldConfig, {
             formContext,
@@ -453,12 +615,12 @@ export const useBaseHoneyForm = <
             pushFieldValue,
             removeFieldValue,
             addFormFieldErrors,
-            form: {
-              //
-            },
+            form: formMetaRef.current,
           }),
         };
 
+        processDynamicFieldsProps({ nextFormFields, formContext });
+
         formFieldsRef.current = nextFormFields;
         return nextFormFields;
       });
@@ -467,6 +629,11 @@ export const useBaseHoneyForm = <
   );
 
   const removeFormField = useCallback<HoneyFormRemoveFormField<Form>>(fieldName => {
+    const formField = formFieldsRef.current?.[fieldName];
+    if (formField) {
+      cancelFieldPendingValidation(formField);
+    }
+
     // Clearing the default field value
     delete formDefaultsRef.current[fieldName];
 
@@ -498,9 +665,12 @@ export const useBaseHoneyForm = <
       let hasErrors = false;
 
       const nextFormFields = {} as HoneyFormFields<Form, FormContext>;
+      const validatedFieldNames: (keyof Form)[] = [];
 
       const formValues = getFormValues(formFields);
 
+      const runAsyncValidation = createConcurrencyLimiter(maxConcurrentAsyncValidations);
+
       await Promise.all(
         Object.keys(formFields).map(async (fieldName: keyof Form) => {
           const formField = formFields[fieldName];
@@ -530,6 +700,8 @@ export const useBaseHoneyForm = <
             return;
           }
 
+          validatedFieldNames.push(fieldName);
+
           const hasChildFormsErrors = await runChildFormsValidation(formField);
           if (hasChildFormsErrors) {
             hasErrors = true;
@@ -540,14 +712,78 @@ export const useBaseHoneyForm = <
             fieldName,
             formFields,
             formContext,
+            runAsyncValidation,
           });
 
-          hasErrors ||= nextField.errors.some(fieldError => fieldError.type !== 'server');
+          hasErrors ||= nextField.errors.some(
+            fieldError => fieldError.type !== 'server' && checkIfFieldErrorIsBlocking(fieldError),
+          );
 
           nextFormFields[fieldName] = nextField;
         }),
       );
 
+      if (validator) {
+        let validatorResult: HoneyFormValidatorResult<Form>;
+        let isValidatorFailed = false;
+
+        try {
+          validatorResult = await validator(formValues, { formContext });
+        } catch (e) {
+          const error = e as Error;
+
+          isValidatorFailed = true;
+          validatorResult = { rootErrors: [error.message] };
+        }
+
+        forEachFormError(validatorResult.fieldErrors ?? {}, (fieldName, fieldErrors) => {
+          const nextField = nextFormFields[fieldName];
+          if (!nextField) {
+            warningMessage(
+              `The form validator returned errors for the non-existing field "${fieldName.toString()}".`,
+            );
+            return;
+          }
+
+          // The fields excluded from the current validation keep their state
+          if (!fieldErrors?.length || !validatedFieldNames.includes(fieldName)) {
+            return;
+          }
+
+          hasErrors ||= fieldErrors.some(checkIfFieldErrorIsBlocking);
+          nextFormFields[fieldName] = getNextErredField<Form, typeof fieldName, FormContext>(
+            nextField,
+            [...nextField.errors, ...fieldErrors],
+          );
+        });
+
+        // The form root errors concern the whole form, so they are updated only by the full form validation.
+        // The error thrown by the validator is shown at any validation, otherwise the failed validation would have no visible error
+        const isFullFormValidation = !targetFields?.length && !excludeFields?.length;
+
+        if (isFullFormValidation || isValidatorFailed) {
+          const nextValidatorRootErrors =
+            validatorResult.rootErrors?.map<HoneyFormFieldError>(message => ({
+              type: 'invalid',
+              message,
+            })) ?? [];
+
+          hasErrors ||= nextValidatorRootErrors.length > 0;
+
+          // Only the root errors produced by the previous form validator run are replaced.
+          // The root errors set by the server, `onSubmit` or `setFormRootErrors()` are kept
+          const prevValidatorRootErrors = formValidatorRootErrorsRef.current;
+          formValidatorRootErrorsRef.current = nextValidatorRootErrors;
+
+          setFormRootErrors(prevFormRootErrors => [
+            ...prevFormRootErrors.filter(
+              formRootError => !prevValidatorRootErrors.includes(formRootError),
+            ),
+            ...nextValidatorRootErrors,
+          ]);
+        }
+      }
+
       isFormValidRef.current = !hasErrors;
 
       // Set the new `nextFormFields` value to the ref to access it at getting clean values at submitting
@@ -557,7 +793,7 @@ export const useBaseHoneyForm = <
 
       return !hasErrors;
     },
-    [formContext],
+    [formContext, validator],
   );
 
   /**
@@ -585,8 +821,9 @@ export const useBaseHoneyForm = <
     [validateForm],
   );
 
-  const getInitialFormFieldsState = () =>
-    initialFormFieldsStateResolver({
+  const getInitialFormFieldsState = () => {
+    const initialFormFields = initialFormFieldsStateResolver({
+      formMeta: formMetaRef.current,
       formContext,
       formFieldsRef,
       formDefaultsRef,
@@ -598,11 +835,26 @@ export const useBaseHoneyForm = <
       addFormFieldErrors,
     });
 
+    // The dynamic field options depend on the values of all fields
+    processDynamicFieldsProps({ nextFormFields: initialFormFields, formContext });
+
+    return initialFormFields;
+  };
+
   const resetForm: HoneyFormReset<Form> = newFormDefaults => {
     isFormDirtyRef.current = false;
     isFormValidRef.current = false;
     isFormSubmittedRef.current = false;
 
+    setFormRootErrors([]);
+
+    if (formFieldsRef.current) {
+      // The results of the pending validations must not be applied to the reset fields
+      forEachFormField(formFieldsRef.current, (_, formField) => {
+        cancelFieldPendingValidation(formField);
+      });
+    }
+
     if (newFormDefaults) {
       formDefaultsRef.current = { ...formDefaultsRef.current, ...newFormDefaults };
     }
@@ -615,10 +867,50 @@ export const useBaseHoneyForm = <
     }
   };
 
+  /**
+   * Picks the values of the fields that exist in the form.
+   * The optional fields can be removed from the form after the saved form values were read.
+   *
+   * @param {Partial<Form>} formValues - The form values read from the storage.
+   *
+   * @returns {Partial<Form>} - The values of the existing fields.
+   */
+  const pickExistingFormValues = (formValues: Partial<Form>): Partial<Form> => {
+    const formFields = formFieldsRef.current;
+    if (!formFields) {
+      throw new Error(HONEY_FORM_ERRORS.emptyFormFieldsRef);
+    }
+
+    return Object.keys(formValues).reduce<Partial<Form>>((result, fieldName: keyof Form) => {
+      if (fieldName in formFields) {
+        result[fieldName] = formValues[fieldName];
+      }
+
+      return result;
+    }, {});
+  };
+
   const restoreUnfinishedForm = useCallback<HoneyFormRestoreUnfinishedForm>(() => {
-    isUnfinishedFormDetected.current = false;
+    if (!unfinishedForm) {
+      warningMessage('There is no unfinished form to restore.');
+      return;
+    }
+
+    unfinishedFormRef.current = null;
+
+    setUnfinishedForm(null);
+    // The restored values are validated, so their clean values replace the unfinished form in the storage
+    setFormValues(pickExistingFormValues(unfinishedForm.values));
+  }, [unfinishedForm, setFormValues]);
+
+  const discardUnfinishedForm = useCallback<HoneyFormDiscardUnfinishedForm>(() => {
+    if (storageAdapter && formName) {
+      clearFormFromStorage(storageAdapter, formName);
+    }
+
+    unfinishedFormRef.current = null;
 
-    setFormValues({});
+    setUnfinishedForm(null);
   }, []);
 
   const submitForm = useCallback<HoneyFormSubmit<Form, FormContext>>(
@@ -643,6 +935,9 @@ export const useBaseHoneyForm = <
             isSubmitting: true,
           });
 
+          // The root errors of the previous submission are replaced by the result of the current one
+          setFormRootErrors([]);
+
           // Prepare data for submission
           const submitData = getSubmitFormValues(parentField, formContext, formFieldsRef.current);
 
@@ -660,9 +955,16 @@ export const useBaseHoneyForm = <
                 })),
               ),
             );
-          } else if (resetAfterSubmit) {
-            resetForm();
-            return;
+          } else {
+            if (storageAdapter?.clearAfterSubmit && formName && !parentField) {
+              // The saved form values are not needed anymore after the successful submission
+              clearFormFromStorage(storageAdapter, formName);
+            }
+
+            if (resetAfterSubmit) {
+              resetForm();
+              return;
+            }
           }
 
           isFormDirtyRef.current = false;
@@ -682,6 +984,171 @@ export const useBaseHoneyForm = <
   //
   formFieldsRef.current = formFields;
 
+  // The fields can be added or removed, so the dependency graph is rebuilt when the set of the fields is changed
+  const formFieldNamesKey = Object.keys(formFields).join();
+
+  const formDependencyGraph = useMemo(() => {
+    const formFieldsConfigs = mapFormFields(
+      formFields,
+      (_, formField) => formField.config,
+    ) as BaseHoneyFormFieldsConfigs<Form, FormContext>;
+
+    const dependencyGraph = getFormDependencyGraph(formFieldsConfigs);
+
+    if (checkIfDevelopmentMode()) {
+      dependencyGraph.cycles.forEach(cycle => {
+        errorMessage(
+          `Circular "dependsOn" dependency of the fields: ${cycle.map(String).join(' -> ')}. Each field in the cycle is reset only once.`,
+        );
+      });
+    }
+
+    return dependencyGraph;
+  }, [formFieldNamesKey]);
+
+  formMetaRef.current.dependencyGraph =
+    formDependencyGraph as HoneyFormDependencyGraph<HoneyFormBaseForm>;
+
+  /**
+   * Applies the form values changed in another tab.
+   * The values are applied only to the fields that were not changed locally,
+   * the fields changed locally are marked as having remote changes instead.
+   *
+   * @param {Partial<Form>} remoteFormValues - The form values changed in another tab.
+   */
+  const applyRemoteFormValues = (remoteFormValues: Partial<Form>) => {
+    const formFields = formFieldsRef.current;
+    if (!formFields) {
+      throw new Error(HONEY_FORM_ERRORS.emptyFormFieldsRef);
+    }
+
+    const formValues = getSubmitFormValues(parentField, formContext, formFields);
+
+    const untouchedFormValues: Partial<Form> = {};
+    const remoteChanges: Partial<Record<keyof Form, boolean>> = {};
+
+    Object.keys(remoteFormValues).forEach((fieldName: keyof Form) => {
+      const formField = formFields[fieldName];
+      // The optional fields can be removed from the form
+      if (!formField) {
+        return;
+      }
+
+      if (formField.__meta__.isLocallyChanged) {
+        const hasRemoteChanges =
+          JSON.stringify(remoteFormValues[fieldName]) !== JSON.stringify(formValues[fieldName]);
+
+        if (formField.hasRemoteChanges !== hasRemoteChanges) {
+          remoteChanges[fieldName] = hasRemoteChanges;
+        }
+      } else {
+        untouchedFormValues[fieldName] = remoteFormValues[fieldName];
+      }
+    });
+
+    if (Object.keys(remoteChanges).length) {
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      setFormFields(prevFormFields => {
+        const nextFormFields = { ...prevFormFields };
+
+        Object.keys(remoteChanges).forEach((fieldName: keyof Form) => {
+          nextFormFields[fieldName] = {
+            ...nextFormFields[fieldName],
+            hasRemoteChanges: remoteChanges[fieldName],
+          };
+        });
+
+        formFieldsRef.current = nextFormFields;
+        return nextFormFields;
+      });
+    }
+
+    if (Object.keys(untouchedFormValues).length) {
+      setFormValues(untouchedFormValues, {
+        isValidate: false,
+        // The remote values are not the changes made by the user in this tab
+        isDirty: false,
+        // Skip `onChange` to not save the remote values back to the storage
+        isSkipOnChange: true,
+      });
+    }
+  };
+
+  // The storage subscription is created once, so it calls the latest function to use the latest form context
+  const applyRemoteFormValuesRef = useRef(applyRemoteFormValues);
+  applyRemoteFormValuesRef.current = applyRemoteFormValues;
+
+  useEffect(() => {
+    if (!syncAcrossTabs || !storageAdapter || !formName || parentField) {
+      return undefined;
+    }
+
+    if (!storageAdapter.subscribe) {
+      warningMessage('The form storage does not support the synchronization across tabs.');
+      return undefined;
+    }
+
+    return storageAdapter.subscribe(formName, payload => {
+      const remoteForm = mapStoragePayloadToUnfinishedForm(
+        storageAdapter,
+        fieldsConfigs,
+        formName,
+        payload,
+        { storageVersion, storageMigrations, onStorageError },
+      );
+
+      if (!remoteForm) {
+        return;
+      }
+
+      // The detected unfinished form is not applied automatically, so it is just replaced with the newer one
+      if (unfinishedFormRef.current) {
+        setUnfinishedForm(remoteForm);
+        return;
+      }
+
+      applyRemoteFormValuesRef.current(remoteForm.values);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!syncWithNavigation || !storageAdapter || !formName || parentField) {
+      return undefined;
+    }
+
+    if (!storageAdapter.subscribeNavigation) {
+      warningMessage('The form storage does not support the synchronization with navigation.');
+      return undefined;
+    }
+
+    const applyNavigationForm = (navigationForm: HoneyFormUnfinishedForm<Form> | undefined) => {
+      // The fields absent in the saved form data are reset to their default values
+      setFormValues(pickExistingFormValues(navigationForm?.values ?? {}), {
+        isClearAll: true,
+        isValidate: false,
+        isDirty: false,
+        // Skip `onChange` to not save the values back to the storage
+        isSkipOnChange: true,
+      });
+    };
+
+    return storageAdapter.subscribeNavigation(formName, () => {
+      const navigationForm = readFormFromStorage(storageAdapter, fieldsConfigs, formName, {
+        storageVersion,
+        storageMigrations,
+        onStorageError,
+      });
+
+      if (navigationForm instanceof Promise) {
+        navigationForm.then(applyNavigationForm).catch(() => {
+          errorMessage('Unable to apply the form values after navigation.');
+        });
+      } else {
+        applyNavigationForm(navigationForm);
+      }
+    });
+  }, []);
+
   // Detect changes in `externalValues` and update the form values accordingly
   useEffect(() => {
     if (externalValues) {
@@ -694,22 +1161,74 @@ export const useBaseHoneyForm = <
   }, [externalValues]);
 
   useEffect(() => {
-    if (typeof defaults === 'function') {
+    const storageReadFailure = storageReadFailureRef.current;
+    // The error is handled once, even if the effect is run again (e.g., in the StrictMode)
+    storageReadFailureRef.current = null;
+
+    if (storageReadFailure) {
+      handleStorageReadError(
+        storageAdapter,
+        formName,
+        storageReadFailure.error,
+        storageReadFailure.rawPayload,
+        onStorageError,
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    const isStoredFormDefaultsFetching = readDefaultsFromStorage && storedForm instanceof Promise;
+
+    if (typeof defaults === 'function' || isStoredFormDefaultsFetching) {
       setIsFormDefaultsFetching(true);
 
-      defaults()
-        .then(defaultValues => {
+      const fetchFormDefaults = async () => {
+        if (typeof defaults === 'function') {
+          // The prefilled values from the query string extend/override the returned defaults
+          const defaultValues = { ...(await defaults()), ...prefilledFormValues };
           // Returned defaults from promise function can extend/override the defaults set via property
           formDefaultsRef.current = { ...formDefaultsRef.current, ...defaultValues };
 
           setFormValues(defaultValues, { isValidate: false, isDirty: false, isSkipOnChange: true });
-        })
+        }
+
+        if (isStoredFormDefaultsFetching) {
+          // Defaults from storage can extend/override the defaults returned from promise function
+          const storedFormValues = (await storedForm)?.values;
+
+          if (storedFormValues) {
+            const storedFormDefaults = { ...storedFormValues, ...prefilledFormValues };
+
+            formDefaultsRef.current = { ...formDefaultsRef.current, ...storedFormDefaults };
+
+            setFormValues(storedFormDefaults, {
+              isValidate: false,
+              isDirty: false,
+              isSkipOnChange: true,
+            });
+          }
+        }
+      };
+
+      fetchFormDefaults()
         .catch(() => {
           errorMessage('Unable to fetch or process the form default values.');
           setIsFormDefaultsFetchingErred(true);
         })
         .finally(() => setIsFormDefaultsFetching(false));
     }
+
+    if (!readDefaultsFromStorage && storedForm instanceof Promise) {
+      storedForm
+        .then(nextUnfinishedForm => {
+          if (nextUnfinishedForm && Object.keys(nextUnfinishedForm.values).length) {
+            setUnfinishedForm(nextUnfinishedForm);
+          }
+        })
+        .catch(() => {
+          errorMessage('Unable to read the unfinished form from the storage.');
+        });
+    }
   }, []);
 
   const formValues = useMemo(() => getFormValues(formFields), [formFields]);
@@ -723,7 +1242,10 @@ export const useBaseHoneyForm = <
     [formFields],
   );
 
-  const isFormErred = Object.keys(formErrors).length > 0;
+  const isFormErred =
+    Object.keys(formErrors).some(fieldName =>
+      formErrors[fieldName].some(checkIfFieldErrorIsBlocking),
+    ) || formRootErrors.some(checkIfFieldErrorIsBlocking);
 
   const isFormSubmitAllowed =
     !isFormDefaultsFetching &&
@@ -765,9 +1287,12 @@ export const useBaseHoneyForm = <
     },
     isFormDefaultsFetching,
     isFormDefaultsFetchingErred,
+    formRootErrors,
     isFormErred,
     isAnyFormFieldValidating,
     isFormSubmitAllowed,
+    isUnfinishedFormDetected: unfinishedForm !== null,
+    unfinishedForm,
     // functions
     setFormValues,
     setFormErrors,
@@ -776,9 +1301,12 @@ export const useBaseHoneyForm = <
     addFormFieldErrors,
     addFormFieldError,
     clearFormErrors,
+    setFormRootErrors,
+    clearFormRootErrors,
     validateForm: outerValidateForm,
     submitForm,
     resetForm,
     restoreUnfinishedForm,
+    discardUnfinishedForm,
   };
 };
@@ -48,6 +48,7 @@ const createInitialFormFields = <
   pushFieldValue,
   removeFieldValue,
   addFormFieldErrors,
+  formMeta,
 }: CreateInitialFormFieldsOptions<ParentForm, ParentFieldName, FormContext, ChildForm>) => {
   const formFields = mapFieldsConfigs(fieldsConfigs, (fieldName, fieldConfig) => {
     let childFormFieldValue: ChildForm[keyof ChildForm] | null | undefined = null;
@@ -78,6 +79,7 @@ const createInitialFormFields = <
         pushFieldValue,
         removeFieldValue,
         addFormFieldErrors,
+        form: formMeta,
       },
     );
   });
@@ -110,7 +112,7 @@ export const useChildHoneyForm = <
   parentField,
   fields: fieldsConfigs = {} as never,
   ...options
-}: ChildHoneyFormOptions<ParentForm, ParentFieldName, FormContext>): HoneyFormApi<
+}: ChildHoneyFormOptions<ParentForm, ParentFieldName, FormContext, ChildForm>): HoneyFormApi<
   ChildForm,
   FormContext
 > => {
@@ -121,9 +123,8 @@ export const useChildHoneyForm = <
     FormContext
   >({
     parentField,
-    fieldsConfigs,
+    fields: fieldsConfigs,
     initialFormFieldsStateResolver: config =>
-      // @ts-expect-error
       createInitialFormFields({
         formIndex,
         parentField,
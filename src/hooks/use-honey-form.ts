@@ -32,6 +32,7 @@ const createInitialFormFields = <Form extends HoneyFormBaseForm, FormContext>({
   pushFieldValue,
   removeFieldValue,
   addFormFieldErrors,
+  formMeta,
 }: CreateInitialFormFieldsOptions<Form, FormContext>) => {
   const formFields = mapFieldsConfigs(fieldsConfigs, (fieldName, fieldConfig) =>
     createField(
@@ -50,6 +51,7 @@ const createInitialFormFields = <Form extends HoneyFormBaseForm, FormContext>({
         pushFieldValue,
         removeFieldValue,
         addFormFieldErrors,
+        form: formMeta,
       },
     ),
   );
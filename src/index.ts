@@ -5,8 +5,26 @@ export * from './types';
 
 export {
   getHoneyFormUniqueId,
+  getFormDependencyGraph,
   checkIfFieldIsInteractive as checkIfHoneyFormFieldIsInteractive,
 } from './helpers';
-export { createHoneyFormDateFromValidator, createHoneyFormDateToValidator } from './validators';
+export {
+  createHoneyFormDateFromValidator,
+  createHoneyFormDateToValidator,
+  createHoneyFormMatchFieldValidator,
+  createHoneyFormRequiredIfValidator,
+  createHoneyFormRequiredUnlessValidator,
+  createHoneyFormAtLeastOneOfValidator,
+  createHoneyFormRangeFromValidator,
+  createHoneyFormRangeToValidator,
+} from './validators';
+export * as HoneyFormRules from './rules';
+export type { HoneyFormRuleOptions } from './rules';
+export {
+  createHoneyFormQueryStringStorage,
+  createHoneyFormWebStorage,
+  createHoneyFormMemoryStorage,
+  createHoneyFormStorageReadError,
+} from './storage';
 
 export * from './components';
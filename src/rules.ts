@@ -0,0 +1,259 @@
+import type {
+  HoneyFormBaseForm,
+  HoneyFormFieldErrorCode,
+  HoneyFormFieldErrorMessage,
+  HoneyFormFieldErrorSeverity,
+  HoneyFormFieldErrorType,
+  HoneyFormFieldRule,
+  HoneyFormFieldRuleContext,
+} from './types';
+
+import { checkIfValueIsEmpty } from './helpers';
+
+/**
+ * Options available for all validation rules.
+ */
+export type HoneyFormRuleOptions = {
+  /**
+   * The custom error message. The string message can include the `{param}` templates (e.g., `{min}`, `{label}`).
+   */
+  message?: HoneyFormFieldErrorMessage;
+  /**
+   * The custom error type.
+   */
+  type?: HoneyFormFieldErrorType;
+  /**
+   * The custom error code.
+   */
+  code?: HoneyFormFieldErrorCode;
+  /**
+   * @default 'error'
+   */
+  severity?: HoneyFormFieldErrorSeverity;
+};
+
+/**
+ * Creates a validation rule that applies the rule options to the error of the broken rule.
+ *
+ * @param {HoneyFormRuleOptions} options - The rule options.
+ * @param {HoneyFormFieldRule['validate']} validate - The function that returns the default error when the value breaks the rule.
+ *
+ * @returns {HoneyFormFieldRule} - The validation rule.
+ */
+const createRule = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+  FieldValue extends Form[FieldName],
+>(
+  { message, type, code, severity }: HoneyFormRuleOptions,
+  validate: HoneyFormFieldRule<Form, FieldName, FormContext, FieldValue>['validate'],
+): HoneyFormFieldRule<Form, FieldName, FormContext, FieldValue> => ({
+  message,
+  validate: (fieldValue, context) => {
+    const fieldError = validate(fieldValue, context);
+    if (!fieldError) {
+      return null;
+    }
+
+    return {
+      ...fieldError,
+      ...(type && { type }),
+      ...(code && { code }),
+      ...(severity && { severity }),
+    };
+  },
+});
+
+/**
+ * Creates a rule that checks that the field value is not empty.
+ *
+ * @param {HoneyFormRuleOptions} options - The rule options.
+ *
+ * @returns {HoneyFormFieldRule} - The validation rule.
+ */
+export const required = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext = undefined,
+  FieldValue extends Form[FieldName] = Form[FieldName],
+>(
+  options: HoneyFormRuleOptions = {},
+) =>
+  createRule<Form, FieldName, FormContext, FieldValue>(options, fieldValue =>
+    checkIfValueIsEmpty(fieldValue)
+      ? {
+          type: 'required',
+          message: 'The value is required',
+          code: 'required',
+        }
+      : null,
+  );
+
+/**
+ * Creates a rule that checks the minimum length of the string or array field value.
+ *
+ * @param {number} min - The minimum length.
+ * @param {HoneyFormRuleOptions} options - The rule options.
+ *
+ * @returns {HoneyFormFieldRule} - The validation rule.
+ */
+export const minLength = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext = undefined,
+  FieldValue extends Form[FieldName] = Form[FieldName],
+>(
+  min: number,
+  options: HoneyFormRuleOptions = {},
+) =>
+  createRule<Form, FieldName, FormContext, FieldValue>(options, fieldValue => {
+    if (
+      checkIfValueIsEmpty(fieldValue) ||
+      !(typeof fieldValue === 'string' || Array.isArray(fieldValue))
+    ) {
+      return null;
+    }
+
+    return fieldValue.length < min
+      ? {
+          type: 'min',
+          message: `The length must be greater than or equal to ${min} characters`,
+          code: 'minLength',
+          params: { min, actual: fieldValue.length },
+        }
+      : null;
+  });
+
+/**
+ * Creates a rule that checks the maximum length of the string or array field value.
+ *
+ * @param {number} max - The maximum length.
+ * @param {HoneyFormRuleOptions} options - The rule options.
+ *
+ * @returns {HoneyFormFieldRule} - The validation rule.
+ */
+export const maxLength = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext = undefined,
+  FieldValue extends Form[FieldName] = Form[FieldName],
+>(
+  max: number,
+  options: HoneyFormRuleOptions = {},
+) =>
+  createRule<Form, FieldName, FormContext, FieldValue>(options, fieldValue => {
+    if (
+      checkIfValueIsEmpty(fieldValue) ||
+      !(typeof fieldValue === 'string' || Array.isArray(fieldValue))
+    ) {
+      return null;
+    }
+
+    return fieldValue.length > max
+      ? {
+          type: 'max',
+          message: `The length must be less than or equal to ${max} characters`,
+          code: 'maxLength',
+          params: { max, actual: fieldValue.length },
+        }
+      : null;
+  });
+
+/**
+ * Creates a rule that checks that the string field value matches the pattern.
+ *
+ * @param {RegExp} regExp - The pattern the value must match.
+ * @param {HoneyFormRuleOptions} options - The rule options.
+ *
+ * @returns {HoneyFormFieldRule} - The validation rule.
+ */
+export const pattern = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext = undefined,
+  FieldValue extends Form[FieldName] = Form[FieldName],
+>(
+  regExp: RegExp,
+  options: HoneyFormRuleOptions = {},
+) =>
+  createRule<Form, FieldName, FormContext, FieldValue>(options, fieldValue => {
+    if (checkIfValueIsEmpty(fieldValue)) {
+      return null;
+    }
+
+    // Reset the position of the global or sticky regular expression left by the previous check
+    regExp.lastIndex = 0;
+
+    return regExp.test(String(fieldValue))
+      ? null
+      : {
+          type: 'invalid',
+          message: 'Invalid format',
+          code: 'pattern',
+          params: { pattern: regExp.source },
+        };
+  });
+
+/**
+ * Creates a rule that checks that the field value is one of the allowed values.
+ *
+ * @param {FieldValue[]} values - The allowed values.
+ * @param {HoneyFormRuleOptions} options - The rule options.
+ *
+ * @returns {HoneyFormFieldRule} - The validation rule.
+ */
+export const oneOf = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext = undefined,
+  FieldValue extends Form[FieldName] = Form[FieldName],
+>(
+  values: FieldValue[],
+  options: HoneyFormRuleOptions = {},
+) =>
+  createRule<Form, FieldName, FormContext, FieldValue>(options, fieldValue => {
+    if (checkIfValueIsEmpty(fieldValue)) {
+      return null;
+    }
+
+    return values.includes(fieldValue)
+      ? null
+      : {
+          type: 'invalid',
+          message: `The value must be one of: ${values.join(', ')}`,
+          code: 'oneOf',
+          params: { values: values.join(', ') },
+        };
+  });
+
+/**
+ * Creates a rule with the custom check of the field value.
+ * The check can use the other form values or the form context to compare with.
+ *
+ * @param {Function} check - The function that returns `true` when the value is valid.
+ * @param {HoneyFormRuleOptions} options - The rule options.
+ *
+ * @returns {HoneyFormFieldRule} - The validation rule.
+ */
+export const custom = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext = undefined,
+  FieldValue extends Form[FieldName] = Form[FieldName],
+>(
+  check: (
+    fieldValue: FieldValue | undefined,
+    context: HoneyFormFieldRuleContext<Form, FieldName, FormContext, FieldValue>,
+  ) => boolean,
+  options: HoneyFormRuleOptions = {},
+) =>
+  createRule<Form, FieldName, FormContext, FieldValue>(options, (fieldValue, context) =>
+    check(fieldValue, context)
+      ? null
+      : {
+          type: 'invalid',
+          message: 'Invalid value',
+          code: 'invalid',
+        },
+  );
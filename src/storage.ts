@@ -0,0 +1,569 @@
+import type {
+  JSONValue,
+  HoneyFormStorage,
+  HoneyFormStorageAdapter,
+  HoneyFormStoragePayload,
+  HoneyFormQueryStringStorageOptions,
+  HoneyFormStorageReadError,
+} from './types';
+import { warningMessage } from './helpers';
+
+export const replaceHistoryState = (searchParams: URLSearchParams) => {
+  const queryString = searchParams.toString();
+
+  window.history.replaceState(
+    null,
+    '',
+    `${window.location.pathname}${queryString ? `?${queryString}` : ''}`,
+  );
+};
+
+/**
+ * The separator between the version and the encoded values in the query string.
+ * The base64 and compression alphabets do not include it, so the values saved without a version can be detected.
+ */
+const QUERY_STRING_VERSION_SEPARATOR = '.';
+
+/**
+ * The name of the search parameter (after the form name prefix) where the version is saved using the `params` encoding.
+ */
+const QUERY_STRING_VERSION_PARAM = '_v';
+
+/**
+ * The prefix of the compressed values in the query string.
+ * The base64 alphabet does not include it, so the compressed values can be detected.
+ */
+const QUERY_STRING_COMPRESSED_PREFIX = '_';
+
+/**
+ * The prefix of the reference key to the form data saved to the fallback storage.
+ * It is not encoded in the query string and is not included in the base64 and compression alphabets.
+ */
+const QUERY_STRING_REFERENCE_PREFIX = '*';
+
+/**
+ * The URL-safe alphabet used to write the compressed values.
+ */
+const COMPRESSION_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * The compression works with ASCII strings only (the values are URI-encoded before).
+ */
+const COMPRESSION_INITIAL_DICTIONARY_SIZE = 128;
+
+/**
+ * Gets the number of characters used to write the code when the dictionary has the specified size.
+ * The size is increased by one with each written code, so the decompression can calculate the same width.
+ *
+ * @param {number} dictionarySize - The current dictionary size.
+ *
+ * @returns {number} - The number of characters used to write the code.
+ */
+const getCompressedCodeWidth = (dictionarySize: number): number => {
+  let codeWidth = 1;
+
+  while (COMPRESSION_ALPHABET.length ** codeWidth < dictionarySize) {
+    codeWidth += 1;
+  }
+
+  return codeWidth;
+};
+
+/**
+ * Compresses the ASCII string using the LZW algorithm and writes the codes using the URL-safe alphabet.
+ *
+ * @param {string} value - The ASCII string to compress.
+ *
+ * @returns {string} - The compressed URL-safe string.
+ */
+const compressQueryStringValue = (value: string): string => {
+  const dictionary = new Map<string, number>(
+    Array.from({ length: COMPRESSION_INITIAL_DICTIONARY_SIZE }, (_, charCode) => [
+      String.fromCharCode(charCode),
+      charCode,
+    ]),
+  );
+
+  let result = '';
+
+  const writeCode = (code: number) => {
+    const codeWidth = getCompressedCodeWidth(dictionary.size);
+
+    result += Array.from(
+      { length: codeWidth },
+      (_, index) =>
+        COMPRESSION_ALPHABET[
+          Math.floor(code / COMPRESSION_ALPHABET.length ** (codeWidth - index - 1)) %
+            COMPRESSION_ALPHABET.length
+        ],
+    ).join('');
+  };
+
+  let phrase = '';
+
+  value.split('').forEach(char => {
+    const nextPhrase = phrase + char;
+
+    if (dictionary.has(nextPhrase)) {
+      phrase = nextPhrase;
+    } else {
+      writeCode(dictionary.get(phrase));
+      dictionary.set(nextPhrase, dictionary.size);
+
+      phrase = char;
+    }
+  });
+
+  if (phrase) {
+    writeCode(dictionary.get(phrase));
+  }
+
+  return result;
+};
+
+/**
+ * Decompresses the string compressed by `compressQueryStringValue`.
+ *
+ * @param {string} compressedValue - The compressed URL-safe string.
+ *
+ * @returns {string} - The decompressed ASCII string.
+ */
+const decompressQueryStringValue = (compressedValue: string): string => {
+  const dictionary = Array.from({ length: COMPRESSION_INITIAL_DICTIONARY_SIZE }, (_, charCode) =>
+    String.fromCharCode(charCode),
+  );
+
+  let position = 0;
+
+  const readCode = (): number => {
+    // The compression wrote the code when its dictionary was one entry larger
+    const codeWidth = getCompressedCodeWidth(dictionary.length + (position ? 1 : 0));
+
+    let code = 0;
+
+    for (let index = 0; index < codeWidth; index += 1) {
+      const digit = COMPRESSION_ALPHABET.indexOf(compressedValue[position + index]);
+      if (digit === -1) {
+        throw new Error('[honey-form]: The compressed query string value is corrupted');
+      }
+
+      code = code * COMPRESSION_ALPHABET.length + digit;
+    }
+
+    position += codeWidth;
+
+    return code;
+  };
+
+  if (!compressedValue) {
+    return '';
+  }
+
+  let phrase = dictionary[readCode()];
+  let result = phrase;
+
+  while (position < compressedValue.length) {
+    const code = readCode();
+
+    let entry: string;
+
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+      //
+    } else if (code === dictionary.length) {
+      entry = phrase + phrase[0];
+      //
+    } else {
+      throw new Error('[honey-form]: The compressed query string value is corrupted');
+    }
+
+    result += entry;
+    dictionary.push(phrase + entry[0]);
+
+    phrase = entry;
+  }
+
+  return result;
+};
+
+/**
+ * Encodes the serialized field value into the search parameter value.
+ * Strings are kept as is to be human-readable, except the strings that look like JSON (e.g., `"123"` or `"true"`),
+ * which are JSON-encoded to keep their type when decoding.
+ *
+ * @param {JSONValue} value - The serialized field value.
+ *
+ * @returns {string} - The search parameter value.
+ */
+const encodeSearchParamValue = (value: JSONValue): string => {
+  if (typeof value === 'string') {
+    try {
+      JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+
+  return JSON.stringify(value);
+};
+
+/**
+ * Decodes the search parameter value into the serialized field value.
+ *
+ * @param {string} rawValue - The search parameter value.
+ *
+ * @returns {JSONValue} - The serialized field value.
+ */
+const decodeSearchParamValue = (rawValue: string): JSONValue => {
+  try {
+    return JSON.parse(rawValue) as JSONValue;
+  } catch {
+    // Human-readable strings are not JSON-encoded
+    return rawValue;
+  }
+};
+
+/**
+ * Gets the search parameters names that belong to the form saved using the `params` encoding.
+ *
+ * @param {URLSearchParams} searchParams - The search parameters.
+ * @param {string} formName - The name of the form.
+ *
+ * @returns {string[]} - The search parameters names prefixed with the form name.
+ */
+const getFormSearchParamsNames = (searchParams: URLSearchParams, formName: string): string[] => {
+  const formSearchParamsNames: string[] = [];
+
+  searchParams.forEach((_, paramName) => {
+    if (paramName.startsWith(`${formName}.`) && !formSearchParamsNames.includes(paramName)) {
+      formSearchParamsNames.push(paramName);
+    }
+  });
+
+  return formSearchParamsNames;
+};
+
+/**
+ * Creates the error thrown by the storage adapter when the saved form data cannot be parsed.
+ * The raw saved form data is attached to the error to be passed to the form `onStorageError` callback.
+ *
+ * @param {unknown} rawPayload - The raw saved form data.
+ * @param {unknown} error - The original parsing error.
+ *
+ * @returns {HoneyFormStorageReadError} - The storage read error.
+ */
+export const createHoneyFormStorageReadError = (
+  rawPayload: unknown,
+  error: unknown,
+): HoneyFormStorageReadError =>
+  Object.assign(
+    new Error(
+      `[honey-form]: Unable to parse the saved form data: ${error instanceof Error ? error.message : String(error)}`,
+    ),
+    { rawPayload },
+  );
+
+/**
+ * Creates a short random reference key to the form data saved to the fallback storage.
+ *
+ * @returns {string} - The reference key.
+ */
+const createQueryStringReference = (): string => Math.random().toString(36).slice(2, 10);
+
+/**
+ * Creates the storage adapter that keeps the form values in the query string.
+ *
+ * - `base64`: The values are stored under the form name as a base64-encoded JSON string prefixed with the version (e.g., `2.eyJ...`).
+ *    The version prefix is omitted for version `0`.
+ * - `params`: Each field value is stored in its own search parameter prefixed with the form name (e.g., `profile.email=a@b.c`).
+ *    The version is stored in the `<form name>._v` search parameter and omitted for version `0`.
+ *
+ * When the query string exceeds `maxQueryStringLength`, the form data is saved to the `fallbackStorage` (if set)
+ * and only the short reference key is left under the form name (e.g., `profile=*k3j2x9a1`).
+ * The saving time is not kept in the query string.
+ *
+ * @param {HoneyFormQueryStringStorageOptions} [options] - The query string storage options.
+ *
+ * @returns {HoneyFormStorageAdapter} - The query string storage adapter.
+ */
+export const createHoneyFormQueryStringStorage = ({
+  encoding = 'base64',
+  compress = false,
+  maxQueryStringLength = 2000,
+  fallbackStorage,
+}: HoneyFormQueryStringStorageOptions = {}): HoneyFormStorageAdapter => {
+  const getFallbackStorageKey = (formName: string, reference: string) => `${formName}.${reference}`;
+
+  const getReference = (searchParams: URLSearchParams, formName: string): string | null => {
+    const rawFormData = searchParams.get(formName);
+
+    return rawFormData?.startsWith(QUERY_STRING_REFERENCE_PREFIX)
+      ? rawFormData.slice(QUERY_STRING_REFERENCE_PREFIX.length)
+      : null;
+  };
+
+  const deleteFormSearchParams = (searchParams: URLSearchParams, formName: string): boolean => {
+    const formSearchParamsNames = [formName, ...getFormSearchParamsNames(searchParams, formName)];
+
+    const existingSearchParamsNames = formSearchParamsNames.filter(paramName =>
+      searchParams.has(paramName),
+    );
+
+    existingSearchParamsNames.forEach(paramName => searchParams.delete(paramName));
+
+    return existingSearchParamsNames.length > 0;
+  };
+
+  const readFormSearchParams = (
+    searchParams: URLSearchParams,
+    formName: string,
+  ): HoneyFormStoragePayload | undefined => {
+    if (encoding === 'params') {
+      const formSearchParamsNames = getFormSearchParamsNames(searchParams, formName);
+      if (!formSearchParamsNames.length) {
+        return undefined;
+      }
+
+      const versionParamName = `${formName}.${QUERY_STRING_VERSION_PARAM}`;
+      const rawVersion = searchParams.get(versionParamName);
+
+      return {
+        version: rawVersion === null ? undefined : Number(rawVersion),
+        values: formSearchParamsNames.reduce<HoneyFormStoragePayload['values']>(
+          (result, paramName) => {
+            if (paramName !== versionParamName) {
+              result[paramName.slice(formName.length + 1)] = decodeSearchParamValue(
+                searchParams.get(paramName),
+              );
+            }
+
+            return result;
+          },
+          {},
+        ),
+      };
+    }
+
+    const rawFormData = searchParams.get(formName);
+    if (!rawFormData) {
+      return undefined;
+    }
+
+    const separatorIndex = rawFormData.indexOf(QUERY_STRING_VERSION_SEPARATOR);
+    const encodedValues = rawFormData.slice(separatorIndex + 1);
+
+    try {
+      // The compressed values can be read regardless of the `compress` option to keep the old links working
+      const uriEncodedValues = encodedValues.startsWith(QUERY_STRING_COMPRESSED_PREFIX)
+        ? decompressQueryStringValue(encodedValues.slice(QUERY_STRING_COMPRESSED_PREFIX.length))
+        : window.atob(encodedValues);
+
+      return {
+        version: separatorIndex === -1 ? undefined : Number(rawFormData.slice(0, separatorIndex)),
+        values: JSON.parse(decodeURI(uriEncodedValues)) as HoneyFormStoragePayload['values'],
+      };
+    } catch (e) {
+      // The URL can be truncated or tampered
+      throw createHoneyFormStorageReadError(rawFormData, e);
+    }
+  };
+
+  const setFormSearchParams = (
+    searchParams: URLSearchParams,
+    formName: string,
+    { version, values }: HoneyFormStoragePayload,
+  ) => {
+    if (encoding === 'params') {
+      if (version) {
+        searchParams.set(`${formName}.${QUERY_STRING_VERSION_PARAM}`, version.toString());
+      }
+
+      Object.keys(values).forEach(fieldName => {
+        // The empty field values are not saved
+        if (values[fieldName] !== undefined) {
+          searchParams.set(`${formName}.${fieldName}`, encodeSearchParamValue(values[fieldName]));
+        }
+      });
+
+      return;
+    }
+
+    const uriEncodedValues = encodeURI(JSON.stringify(values));
+
+    const encodedValues = compress
+      ? `${QUERY_STRING_COMPRESSED_PREFIX}${compressQueryStringValue(uriEncodedValues)}`
+      : window.btoa(uriEncodedValues);
+
+    searchParams.set(
+      formName,
+      version ? `${version}${QUERY_STRING_VERSION_SEPARATOR}${encodedValues}` : encodedValues,
+    );
+  };
+
+  return {
+    read: formName => {
+      const searchParams = new URLSearchParams(window.location.search);
+
+      const reference = getReference(searchParams, formName);
+      if (reference !== null) {
+        return fallbackStorage?.read(getFallbackStorageKey(formName, reference));
+      }
+
+      return readFormSearchParams(searchParams, formName);
+    },
+    write: (formName, payload) => {
+      const searchParams = new URLSearchParams(window.location.search);
+
+      const reference = getReference(searchParams, formName);
+
+      deleteFormSearchParams(searchParams, formName);
+      setFormSearchParams(searchParams, formName, payload);
+
+      if (searchParams.toString().length > maxQueryStringLength) {
+        if (fallbackStorage) {
+          // The existing reference is reused to not leave orphan form data in the fallback storage
+          const nextReference = reference ?? createQueryStringReference();
+
+          deleteFormSearchParams(searchParams, formName);
+          searchParams.set(formName, `${QUERY_STRING_REFERENCE_PREFIX}${nextReference}`);
+
+          replaceHistoryState(searchParams);
+
+          return fallbackStorage.write(getFallbackStorageKey(formName, nextReference), payload);
+        }
+
+        warningMessage(
+          `The query string exceeds the limit of ${maxQueryStringLength} characters. This might cause unexpected behavior or errors. Please set the \`fallbackStorage\` or reduce the length of the query string.`,
+        );
+      }
+
+      replaceHistoryState(searchParams);
+
+      // The form data fits the query string again
+      return reference === null
+        ? undefined
+        : fallbackStorage?.clear(getFallbackStorageKey(formName, reference));
+    },
+    clear: formName => {
+      const searchParams = new URLSearchParams(window.location.search);
+
+      const reference = getReference(searchParams, formName);
+
+      if (deleteFormSearchParams(searchParams, formName)) {
+        replaceHistoryState(searchParams);
+      }
+
+      return reference === null
+        ? undefined
+        : fallbackStorage?.clear(getFallbackStorageKey(formName, reference));
+    },
+    subscribeNavigation: (_, listener) => {
+      // The event is fired only for the browser back/forward navigations, but not for `replaceState`
+      const popStateHandler = () => listener();
+
+      window.addEventListener('popstate', popStateHandler);
+
+      return () => {
+        window.removeEventListener('popstate', popStateHandler);
+      };
+    },
+  };
+};
+
+/**
+ * Creates the storage adapter that keeps the form data in the Web Storage (local or session storage) under the form name.
+ * The saved form data is removed after a successful submission.
+ *
+ * @param {Storage} [webStorage=window.localStorage] - The Web Storage to use.
+ *
+ * @returns {HoneyFormStorageAdapter} - The Web Storage adapter.
+ */
+export const createHoneyFormWebStorage = (
+  webStorage: Storage = window.localStorage,
+): HoneyFormStorageAdapter => ({
+  read: formName => {
+    const rawFormData = webStorage.getItem(formName);
+    if (!rawFormData) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(rawFormData) as HoneyFormStoragePayload;
+    } catch (e) {
+      throw createHoneyFormStorageReadError(rawFormData, e);
+    }
+  },
+  write: (formName, payload) => {
+    webStorage.setItem(formName, JSON.stringify(payload));
+  },
+  clear: formName => {
+    webStorage.removeItem(formName);
+  },
+  subscribe: (formName, listener) => {
+    // The event is fired only in other tabs, so the own changes are not received
+    const storageEventHandler = (e: StorageEvent) => {
+      if (e.storageArea !== webStorage || e.key !== formName) {
+        return;
+      }
+
+      let payload: HoneyFormStoragePayload | undefined;
+
+      try {
+        payload = e.newValue ? (JSON.parse(e.newValue) as HoneyFormStoragePayload) : undefined;
+      } catch {
+        warningMessage(`Unable to parse the form "${formName}" data changed in another tab.`);
+        return;
+      }
+
+      listener(payload);
+    };
+
+    window.addEventListener('storage', storageEventHandler);
+
+    return () => {
+      window.removeEventListener('storage', storageEventHandler);
+    };
+  },
+  clearAfterSubmit: true,
+});
+
+/**
+ * Creates the storage adapter that keeps the form data in memory.
+ * Useful for tests or when the form data should survive only the component remounting.
+ * The saved form data is removed after a successful submission.
+ *
+ * @returns {HoneyFormStorageAdapter} - The in-memory storage adapter.
+ */
+export const createHoneyFormMemoryStorage = (): HoneyFormStorageAdapter => {
+  const formsData = new Map<string, HoneyFormStoragePayload>();
+
+  return {
+    read: formName => formsData.get(formName),
+    write: (formName, payload) => {
+      formsData.set(formName, payload);
+    },
+    clear: formName => {
+      formsData.delete(formName);
+    },
+    clearAfterSubmit: true,
+  };
+};
+
+/**
+ * Resolves the form storage option to the storage adapter.
+ *
+ * @param {HoneyFormStorage} storage - The built-in storage name or a custom storage adapter.
+ *
+ * @returns {HoneyFormStorageAdapter} - The storage adapter.
+ */
+export const getFormStorageAdapter = (storage: HoneyFormStorage): HoneyFormStorageAdapter => {
+  if (storage === 'qs') {
+    return createHoneyFormQueryStringStorage();
+  }
+
+  if (storage === 'ls') {
+    return createHoneyFormWebStorage(window.localStorage);
+  }
+
+  return storage;
+};
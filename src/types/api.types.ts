@@ -2,15 +2,20 @@ import type {
   HoneyFormAddFormField,
   HoneyFormBaseForm,
   HoneyFormClearErrors,
+  HoneyFormClearRootErrors,
   HoneyFormDefaultValues,
   HoneyFormErrors,
   HoneyFormFieldAddError,
   HoneyFormFieldAddErrors,
+  HoneyFormFieldError,
   HoneyFormFields,
   HoneyFormRemoveFormField,
   HoneyFormReset,
   HoneyFormRestoreUnfinishedForm,
+  HoneyFormDiscardUnfinishedForm,
+  HoneyFormUnfinishedForm,
   HoneyFormSetFormErrors,
+  HoneyFormSetFormRootErrors,
   HoneyFormSetFormValues,
   HoneyFormSubmit,
   HoneyFormValidate,
@@ -46,9 +51,17 @@ export type HoneyFormApi<Form extends HoneyFormBaseForm, FormContext = undefined
    * @default {}
    */
   formErrors: HoneyFormErrors<Form>;
+  /**
+   * Form-level errors that are not tied to any field.
+   * The errors are set by the form `validator`, the `root` key of the submit errors, or when the errors
+   * are added to the fields that do not exist in the form.
+   *
+   * @default []
+   */
+  formRootErrors: HoneyFormFieldError[];
   /**
    * A boolean value that becomes `true` when the form has any error.
-   * It remains `false` when the form is error-free.
+   * It remains `false` when the form is error-free or has only the advisory errors ('warning' and 'info' severity).
    *
    * @default false
    */
@@ -115,14 +128,36 @@ export type HoneyFormApi<Form extends HoneyFormBaseForm, FormContext = undefined
    * @default true
    */
   isFormSubmitAllowed: boolean;
+  /**
+   * A boolean value that becomes `true` when the form values saved to the storage were detected at the form mounting.
+   * The detected values are not applied automatically, use `restoreUnfinishedForm()` to apply them
+   * or `discardUnfinishedForm()` to remove them.
+   *
+   * @remarks
+   * The detection works only when the form `name` and `storage` are set and `readDefaultsFromStorage` is not set.
+   *
+   * @default false
+   */
+  isUnfinishedFormDetected: boolean;
+  /**
+   * The detected unfinished form, including the saving time and the saved values.
+   *
+   * @default null
+   */
+  unfinishedForm: HoneyFormUnfinishedForm<Form> | null;
   /**
    * Sets the values of the form fields.
    */
   setFormValues: HoneyFormSetFormValues<Form>;
   /**
    * Sets the errors for the form fields.
+   * The errors of the fields that do not exist in the form are set as the form root errors.
    */
   setFormErrors: HoneyFormSetFormErrors<Form>;
+  /**
+   * Sets the form-level errors that are not tied to any field.
+   */
+  setFormRootErrors: HoneyFormSetFormRootErrors;
   /**
    * Add a new field to the form.
    */
@@ -143,6 +178,10 @@ export type HoneyFormApi<Form extends HoneyFormBaseForm, FormContext = undefined
    * Clears all form errors.
    */
   clearFormErrors: HoneyFormClearErrors;
+  /**
+   * Clears the form-level errors only.
+   */
+  clearFormRootErrors: HoneyFormClearRootErrors;
   /**
    * Validates the entire form.
    */
@@ -159,6 +198,10 @@ export type HoneyFormApi<Form extends HoneyFormBaseForm, FormContext = undefined
    * Restores the form to an unfinished state.
    */
   restoreUnfinishedForm: HoneyFormRestoreUnfinishedForm;
+  /**
+   * Discards the detected unfinished form and removes the saved values from the storage.
+   */
+  discardUnfinishedForm: HoneyFormDiscardUnfinishedForm;
 };
 
 /**
@@ -36,12 +36,77 @@ export type HoneyFormFieldType =
   | HoneyFormNestedFormsFieldType;
 
 /**
- * Field error type.
+ * Field error types produced by the form itself.
  *
  * @remarks
  * The 'server' error type does not block the form submission flow.
  */
-type HoneyFormFieldErrorType = 'required' | 'invalid' | 'server' | 'min' | 'max' | 'minMax';
+type HoneyFormFieldBuiltInErrorType =
+  | 'required'
+  | 'invalid'
+  | 'server'
+  | 'min'
+  | 'max'
+  | 'minMax'
+  | 'timeout';
+
+/**
+ * Field error type.
+ * Any custom string type can be used along with the built-in types.
+ */
+export type HoneyFormFieldErrorType =
+  | HoneyFormFieldBuiltInErrorType
+  | (string & Record<never, never>);
+
+/**
+ * Machine-readable codes of the errors produced by the built-in validators.
+ *
+ * - `required`: The required value is missing.
+ * - `invalid`: The custom validator returned `false` or was rejected.
+ * - `invalidNumeric`: The value contains non-digit characters.
+ * - `invalidNumber`: The value is not a number. Params: `{ decimal, negative, maxFraction }`.
+ * - `invalidEmail`: The value is not an email.
+ * - `minValue`, `maxValue`, `minMaxValue`: The number is out of range. Params: `{ min?, max?, actual }`.
+ * - `minLength`, `maxLength`, `minMaxLength`: The string length is out of range. Params: `{ min?, max?, actual }`.
+ * - `timeout`: The asynchronous validator was not settled in time. Params: `{ timeout }`.
+ * - `pattern`: The value does not match the rule pattern. Params: `{ pattern }`.
+ * - `oneOf`: The value is not one of the rule values. Params: `{ values }`.
+ * - `mismatch`: The value does not match the value of another field. Params: `{ field }`.
+ * - `atLeastOneOf`: None of the fields has a value. Params: `{ fields }`.
+ * - `invalidRange`: The range boundary is out of the range of the other boundary field. Params: `{ field }`.
+ * - `invalidRangeValue`: The range boundary value cannot be parsed (e.g., not a date). Params: `{ valueType, actual }`.
+ */
+export type HoneyFormFieldBuiltInErrorCode =
+  | 'required'
+  | 'invalid'
+  | 'invalidNumeric'
+  | 'invalidNumber'
+  | 'invalidEmail'
+  | 'minValue'
+  | 'maxValue'
+  | 'minMaxValue'
+  | 'minLength'
+  | 'maxLength'
+  | 'minMaxLength'
+  | 'timeout'
+  | 'pattern'
+  | 'oneOf'
+  | 'mismatch'
+  | 'atLeastOneOf'
+  | 'invalidRange'
+  | 'invalidRangeValue';
+
+/**
+ * Machine-readable error code. Any custom string code can be used along with the built-in codes.
+ */
+export type HoneyFormFieldErrorCode =
+  | HoneyFormFieldBuiltInErrorCode
+  | (string & Record<never, never>);
+
+/**
+ * The values used to build the error message (e.g., `{ min: 3, actual: 1 }`).
+ */
+export type HoneyFormFieldErrorParams = Record<string, unknown>;
 
 /**
  * Represents an error message for a form field.
@@ -76,10 +141,26 @@ export type HoneyFormExtractChildForm<FieldValue> = FieldValue extends (infer Ch
   : never;
 
 /**
- * Defines two possible modes for form field interactions: `change` and `blur`.
- * This could be used to specify when field validation or other actions should occur.
+ * Defines when the field value is validated by the user interactions:
+ * - `change`: Each change of the value triggers the validation.
+ * - `blur`: The validation is triggered when the focus leaves the input.
+ * - `touched`: The validation is triggered when the focus leaves the input firstly, and then on each change.
+ * - `submit`: The value is validated only when the form is validated or submitted.
+ */
+export type HoneyFormFieldMode = 'change' | 'blur' | 'touched' | 'submit';
+
+/**
+ * Defines when the value of the field that already has errors is re-validated by the user interactions:
+ * - `change`: Each change of the value triggers the validation.
+ * - `blur`: The validation is triggered when the focus leaves the input.
+ * - `submit`: The value is re-validated only when the form is validated or submitted.
  */
-type HoneyFormFieldMode = 'change' | 'blur';
+export type HoneyFormFieldRevalidateMode = 'change' | 'blur' | 'submit';
+
+/**
+ * The user interaction that sets the field value.
+ */
+export type HoneyFormFieldValidationTrigger = 'change' | 'blur';
 
 /**
  * Context object for any field function.
@@ -103,20 +184,123 @@ type BaseHoneyFormFieldFunctionContext<T, Form extends HoneyFormBaseForm, FormCo
   formValues: HoneyFormValues<Form>;
 } & T;
 
+/**
+ * Context object for the field config options that are resolved from the form values.
+ *
+ * @template Form - The form type.
+ * @template FormContext - The context object for the form.
+ */
+export type HoneyFormDynamicFieldConfigOptionContext<
+  Form extends HoneyFormBaseForm,
+  FormContext,
+> = BaseHoneyFormFieldFunctionContext<Record<never, never>, Form, FormContext>;
+
+/**
+ * A field config option that is either a static value or a function that resolves the value from the form values
+ * (e.g., the VAT number is required when the country is in the EU).
+ * The function is re-evaluated when the form values change.
+ *
+ * @template Form - The form type.
+ * @template FormContext - The context object for the form.
+ * @template Value - The type of the option value.
+ */
+export type HoneyFormDynamicFieldConfigOption<Form extends HoneyFormBaseForm, FormContext, Value> =
+  | Value
+  | ((context: HoneyFormDynamicFieldConfigOptionContext<Form, FormContext>) => Value);
+
+/**
+ * Context object for the field validation rules.
+ *
+ * @template Form - The form type.
+ * @template FieldName - The name of the field being validated.
+ * @template FormContext - The context object for the form.
+ * @template FieldValue - The type of the field value.
+ */
+export type HoneyFormFieldRuleContext<
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+  FieldValue extends Form[FieldName] = Form[FieldName],
+> = BaseHoneyFormFieldFunctionContext<
+  {
+    fieldConfig: HoneyFormFieldConfig<Form, FieldName, FormContext, FieldValue>;
+  },
+  Form,
+  FormContext
+>;
+
+/**
+ * A validation rule of the field.
+ *
+ * @template Form - The form type.
+ * @template FieldName - The name of the field being validated.
+ * @template FormContext - The context object for the form.
+ * @template FieldValue - The type of the field value.
+ */
+export type HoneyFormFieldRule<
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext = undefined,
+  FieldValue extends Form[FieldName] = Form[FieldName],
+> = {
+  /**
+   * The custom error message. The string message can include the `{param}` templates.
+   * It takes precedence over the messages of the `HoneyFormConfigProvider`.
+   */
+  message?: HoneyFormFieldErrorMessage;
+  /**
+   * Checks the field value.
+   *
+   * @returns `null` when the value satisfies the rule, or the error otherwise.
+   */
+  validate: (
+    fieldValue: FieldValue | undefined,
+    context: HoneyFormFieldRuleContext<Form, FieldName, FormContext, FieldValue>,
+  ) => HoneyFormFieldError | null;
+};
+
+/**
+ * Defines how the field errors are collected:
+ * - `all`: All validators and rules are run, and all errors are collected.
+ * - `firstError`: The validation stops at the first error.
+ */
+export type HoneyFormFieldValidationStrategy = 'firstError' | 'all';
+
 /**
  * Represents a mapping of error types.
  * This allows for custom error messages for different error types.
  */
 type HoneyFormFieldErrorMessages = Partial<
-  Record<HoneyFormFieldErrorType, HoneyFormFieldErrorMessage>
+  Record<HoneyFormFieldBuiltInErrorType, HoneyFormFieldErrorMessage>
 >;
 
+/**
+ * Field error severity.
+ *
+ * @remarks
+ * Only the 'error' severity makes the field invalid and blocks the form submission flow.
+ * The 'warning' and 'info' messages are advisory (e.g., "this looks like a personal email").
+ */
+export type HoneyFormFieldErrorSeverity = 'error' | 'warning' | 'info';
+
 /**
  * Represents a form field error with a specific error type and an associated error message.
  */
 export type HoneyFormFieldError = {
   type: HoneyFormFieldErrorType;
   message: HoneyFormFieldErrorMessage;
+  /**
+   * A machine-readable error code (e.g., for the translations or analytics).
+   */
+  code?: HoneyFormFieldErrorCode;
+  /**
+   * The values used to build the error message.
+   */
+  params?: HoneyFormFieldErrorParams;
+  /**
+   * @default 'error'
+   */
+  severity?: HoneyFormFieldErrorSeverity;
 };
 
 /**
@@ -161,6 +345,17 @@ type HoneyFormFieldSetValueOptions = {
 
 type HoneyFormFieldSetInternalValueOptions = HoneyFormFieldSetValueOptions & {
   isPushValue?: boolean;
+  /**
+   * The user interaction that sets the value.
+   * When it is set, the field is validated according to its `mode` and `revalidateMode` instead of the `isValidate` option.
+   */
+  trigger?: HoneyFormFieldValidationTrigger;
+  /**
+   * Whether the field `validationDebounce` should be applied (e.g., when the user types).
+   *
+   * @default false
+   */
+  isDebounceValidation?: boolean;
 };
 
 export type HoneyFormFieldSetInternalValue<Form extends HoneyFormBaseForm> = <
@@ -280,6 +475,11 @@ type BaseHoneyFormFieldValidatorContext<
      * A function to schedule validation for another field.
      */
     scheduleValidation: HoneyFormScheduleFieldValidation<Form, FieldName>;
+    /**
+     * A signal that is aborted when the validation is superseded by a newer one (e.g., the field value is changed again).
+     * It can be passed to `fetch` to cancel the request. The result of the aborted validation is ignored.
+     */
+    signal: AbortSignal;
   },
   Form,
   FormContext
@@ -435,6 +635,31 @@ export type HoneyFormObjectFieldValidator<
   context: HoneyFormObjectFieldValidatorContext<Form, FieldName, FormContext, FieldValue>,
 ) => HoneyFormFieldValidationResult | Promise<HoneyFormFieldValidationResult>;
 
+/**
+ * A validator created by the cross-field validator factories.
+ * It only uses the context properties common for all field types, so it can be the validator of any field.
+ *
+ * @template Form - Type representing the entire form.
+ * @template FieldName - Name of the field in the form.
+ * @template FormContext - Contextual information for the form.
+ * @template FieldValue - Type representing the value of the field.
+ */
+export type HoneyFormCrossFieldValidator<
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext = undefined,
+  FieldValue extends Form[FieldName] = Form[FieldName],
+> = (
+  /**
+   * The current value of the field.
+   */
+  value: FieldValue | undefined,
+  /**
+   * The validation context, containing the other form fields and the function to schedule their validation.
+   */
+  context: BaseHoneyFormFieldValidatorContext<Record<never, never>, Form, FieldName, FormContext>,
+) => HoneyFormFieldValidationResult;
+
 /**
  * Context object passed to the validator function for a nested forms field.
  *
@@ -611,6 +836,76 @@ type HoneyFormFieldDependsOn<
   FormContext,
 > = keyof Form | (keyof Form)[] | HoneyFormFieldDependsOnFn<Form, FieldName, FormContext>;
 
+type HoneyFormFieldRevalidateWith<Form extends HoneyFormBaseForm> = keyof Form | (keyof Form)[];
+
+/**
+ * Represents the policy of saving the field value to the form storage.
+ */
+export type HoneyFormFieldPersistConfig = {
+  /**
+   * The time in milliseconds the saved field value lives.
+   * The expired value is not restored from the storage.
+   *
+   * @default undefined
+   */
+  ttl?: number;
+  /**
+   * A function to encode the serialized field value before saving it to the storage (e.g., to encrypt it).
+   */
+  encode?: (serializedValue: JSONValue) => JSONValue;
+  /**
+   * A function to decode the saved field value before deserializing it.
+   */
+  decode?: (encodedValue: JSONValue) => JSONValue;
+};
+
+/**
+ * Represents whether and how the field value is saved to the form storage.
+ *
+ * - `false`: The field value is never saved.
+ * - `true`: The field value is saved as is.
+ * - An object: The field value is saved with the expiration time and/or through the encode/decode functions.
+ */
+export type HoneyFormFieldPersist = boolean | HoneyFormFieldPersistConfig;
+
+/**
+ * Represents the options of caching the asynchronous field validation results.
+ *
+ * @template FieldValue - Type representing the value of the field.
+ * @template FormContext - Contextual information for the form.
+ */
+export type HoneyFormFieldValidationCacheConfig<FieldValue, FormContext> = {
+  /**
+   * The maximum number of cached validation results. The least recently used result is removed first.
+   *
+   * @default 100
+   */
+  maxSize?: number;
+  /**
+   * The time in milliseconds the cached validation result lives.
+   *
+   * @default undefined
+   */
+  ttl?: number;
+  /**
+   * A function to get the cache key of the field value (e.g., to ignore the letter case).
+   *
+   * @default JSON.stringify
+   */
+  key?: (value: FieldValue | undefined, context: { formContext: FormContext }) => string;
+};
+
+/**
+ * Represents whether and how the asynchronous field validation results are cached.
+ *
+ * - `false`: The validation results are not cached.
+ * - `true`: The validation results are cached with the default options.
+ * - An object: The validation results are cached with the custom size limit, TTL and/or key function.
+ */
+export type HoneyFormFieldValidationCache<FieldValue, FormContext> =
+  | boolean
+  | HoneyFormFieldValidationCacheConfig<FieldValue, FormContext>;
+
 /**
  * Represents the base configuration for a form field.
  *
@@ -634,10 +929,11 @@ type BaseHoneyFormFieldConfig<
     type: HoneyFormFieldType;
     /**
      * Indicates whether the field is required.
+     * Can be a function of the form values and context.
      *
      * @default false
      */
-    required?: boolean;
+    required?: HoneyFormDynamicFieldConfigOption<Form, FormContext, boolean>;
     /**
      * The default value for the field.
      *
@@ -649,8 +945,20 @@ type BaseHoneyFormFieldConfig<
     defaultValue?: FieldValue;
     /**
      * Clears the field value when the dependent field is changed.
+     *
+     * The function receives the name of the changed field. For the chained dependencies, it receives the field
+     * that caused the reset of the changed field (e.g., `A` for the field `C` in the chain `A -> B -> C`).
      */
     dependsOn?: HoneyFormFieldDependsOn<Form, FieldName, FormContext>;
+    /**
+     * Re-validates the field (instead of resetting it like `dependsOn`) when any of the listed fields is changed.
+     */
+    revalidateWith?: HoneyFormFieldRevalidateWith<Form>;
+    /**
+     * The human-readable name of the field.
+     * It is available as `{label}` in the error message templates of the `HoneyFormConfigProvider`.
+     */
+    label?: string;
     /**
      * Custom error messages for this field.
      */
@@ -675,6 +983,46 @@ type BaseHoneyFormFieldConfig<
      * A function to deserialize the raw value of the field from JSON into the appropriate form value.
      */
     deserializer?: (rawValue: JSONValue) => FieldValue;
+    /**
+     * Whether and how the field value is saved to the form storage.
+     * Use `false` for sensitive values, such as passwords or card numbers.
+     *
+     * @default true (`false` for the `file` fields)
+     */
+    persist?: HoneyFormFieldPersist;
+    /**
+     * The validation rules run in order after the built-in validators and before the custom `validator`.
+     *
+     * @example
+     * ```ts
+     * rules: [required(), minLength(3), pattern(/^[a-z]+$/, { message: 'Only lowercase letters' })]
+     * ```
+     */
+    rules?: HoneyFormFieldRule<Form, FieldName, FormContext, FieldValue>[];
+    /**
+     * Defines whether all field errors are collected or the validation stops at the first error.
+     * When the validation stops, the next rules and the custom `validator` are not run.
+     *
+     * @default 'all'
+     */
+    validationStrategy?: HoneyFormFieldValidationStrategy;
+    /**
+     * Whether and how the results of the asynchronous `validator` are cached.
+     * The cached result is used for the previously validated value without calling the validator.
+     *
+     * @remarks
+     * The cache is invalidated when the form context is changed.
+     *
+     * @default false
+     */
+    validationCache?: HoneyFormFieldValidationCache<FieldValue, FormContext>;
+    /**
+     * The time in milliseconds after which the asynchronous `validator` fails with the `timeout` error.
+     * It overrides the form `asyncValidationTimeout` option.
+     *
+     * @default undefined
+     */
+    asyncValidationTimeout?: number;
     /**
      * Callback function triggered when the field value changes.
      */
@@ -706,24 +1054,44 @@ export type HoneyFormInteractiveFieldConfig<
      *
      * @example
      * - If `change` mode is set, each typed character triggers the validation process.
-     * - If `blur` mode is set, the validation will be triggered when focus leaves the input firstly,
-     *  but the re-validate the new field value even validation field mode is `blur` if there is any error.
+     * - If `blur` mode is set, the validation will be triggered when focus leaves the input.
+     * - If `touched` mode is set, the validation will be triggered when focus leaves the input firstly,
+     *  and then each typed character triggers the validation process.
+     * - If `submit` mode is set, the value is validated only when the form is validated or submitted.
+     *
+     * The value of the field with errors is re-validated according to the `revalidateMode`.
      *
-     * @default change
+     * @default The form `mode` or `change`
      */
     mode?: HoneyFormFieldMode;
+    /**
+     * Defines when the value of the field that already has errors is re-validated.
+     *
+     * @default The form `revalidateMode` or `change`
+     */
+    revalidateMode?: HoneyFormFieldRevalidateMode;
+    /**
+     * The delay in milliseconds before the field is validated after the user stops typing.
+     * The field is marked as validating during the delay.
+     * The pending validation is run immediately when the focus leaves the input or the form is validated (e.g., when submitting).
+     *
+     * @default undefined
+     */
+    validationDebounce?: number;
     /**
      * The minimum allowed value for numbers or minimum length for strings.
+     * Can be a function of the form values and context.
      *
      * @default undefined
      */
-    min?: number;
+    min?: HoneyFormDynamicFieldConfigOption<Form, FormContext, number>;
     /**
      * The maximum allowed value for numbers or maximum length for strings.
+     * Can be a function of the form values and context.
      *
      * @default undefined
      */
-    max?: number;
+    max?: HoneyFormDynamicFieldConfigOption<Form, FormContext, number>;
     /**
      * Indicates if decimal values are allowed.
      *
@@ -918,6 +1286,22 @@ export type ChildHoneyFormFieldConfig<
   | HoneyFormObjectFieldConfig<ChildForm, FieldName, FormContext, FieldValue>
   | HoneyFormNestedFormsFieldConfig<ChildForm, FieldName, FormContext, FieldValue>;
 
+/**
+ * The field configuration with the dynamic options resolved to their current values.
+ *
+ * @template FieldConfig - The field configuration type.
+ */
+export type HoneyFormResolvedFieldConfig<FieldConfig> = FieldConfig extends unknown
+  ? Omit<FieldConfig, 'required' | 'min' | 'max'> & {
+      required?: boolean;
+    } & ('min' extends keyof FieldConfig
+        ? {
+            min?: number;
+            max?: number;
+          }
+        : unknown)
+  : never;
+
 /**
  * Represents a built-in form field validator function.
  *
@@ -931,7 +1315,7 @@ export type HoneyFormFieldBuiltInValidator = <
   FieldValue extends Form[FieldName] = Form[FieldName],
 >(
   fieldValue: FieldValue | undefined,
-  fieldConfig: HoneyFormFieldConfig<Form, FieldName, any, FieldValue>,
+  fieldConfig: HoneyFormResolvedFieldConfig<HoneyFormFieldConfig<Form, FieldName, any, FieldValue>>,
   fieldErrors: HoneyFormFieldError[],
 ) => void;
 
@@ -948,7 +1332,9 @@ export type HoneyFormInteractiveFieldBuiltInValidator = <
   FieldValue extends Form[FieldName] = Form[FieldName],
 >(
   fieldValue: FieldValue | undefined,
-  fieldConfig: HoneyFormInteractiveFieldConfig<Form, FieldName, any, FieldValue>,
+  fieldConfig: HoneyFormResolvedFieldConfig<
+    HoneyFormInteractiveFieldConfig<Form, FieldName, any, FieldValue>
+  >,
   fieldErrors: HoneyFormFieldError[],
 ) => void;
 
@@ -1045,8 +1431,102 @@ export type HoneyFormChildFormContext<
   validateForm: HoneyFormValidate<ChildForm>;
 };
 
+/**
+ * The default error messages keyed by the error code or type.
+ * The string messages can include the `{param}` templates replaced with the error params and the field `label`
+ * (e.g., `"Must be at least {min} characters"`).
+ */
+export type HoneyFormErrorMessages = {
+  [errorCodeOrType: string]: HoneyFormFieldErrorMessage;
+};
+
+export type HoneyFormErrorMessageResolverContext = {
+  /**
+   * The configuration of the erred field (e.g., to use its `label`).
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  fieldConfig: HoneyFormFieldConfig<any, any, any>;
+  /**
+   * The current locale set via the `HoneyFormConfigProvider`.
+   */
+  locale: string | undefined;
+};
+
+/**
+ * A function to resolve the error message. Returns `undefined` to use the default message.
+ * The returned string message can include the `{param}` templates as well.
+ */
+export type HoneyFormErrorMessageResolver = (
+  fieldError: HoneyFormFieldError,
+  context: HoneyFormErrorMessageResolverContext,
+) => HoneyFormFieldErrorMessage | undefined;
+
+/**
+ * The global configuration shared by all forms inside the `HoneyFormConfigProvider`.
+ */
+export type HoneyFormConfig = {
+  /**
+   * The current locale passed to the `resolveErrorMessage` function.
+   */
+  locale?: string;
+  /**
+   * The default error messages used instead of the built-in English messages.
+   */
+  messages?: HoneyFormErrorMessages;
+  /**
+   * A function to resolve the error message, e.g., via the translation library.
+   * It takes precedence over the `messages`.
+   */
+  resolveErrorMessage?: HoneyFormErrorMessageResolver;
+};
+
+/**
+ * The graph of the static `dependsOn` dependencies between the form fields.
+ *
+ * @template Form - Type representing the entire form.
+ */
+export type HoneyFormDependencyGraph<Form extends HoneyFormBaseForm> = {
+  /**
+   * The fields that are reset when the field is changed.
+   */
+  dependents: Partial<Record<keyof Form, (keyof Form)[]>>;
+  /**
+   * The fields with the `dependsOn` function. Their dependencies are resolved on each change.
+   */
+  dynamicFields: (keyof Form)[];
+  /**
+   * The fields in the topological order: each field goes before the fields that depend on it.
+   */
+  order: (keyof Form)[];
+  /**
+   * The circular dependencies, each as the path of the fields (e.g., `['a', 'b', 'a']`).
+   */
+  cycles: (keyof Form)[][];
+};
+
 export type HoneyFormMeta = {
-  //
+  /**
+   * The time in milliseconds after which the asynchronous field validation fails with the `timeout` error.
+   * The field `asyncValidationTimeout` overrides it.
+   */
+  asyncValidationTimeout: number | undefined;
+  /**
+   * The global configuration from the closest `HoneyFormConfigProvider`.
+   */
+  config: HoneyFormConfig;
+  /**
+   * The default validation mode of the interactive fields. It is set once when the form is created.
+   */
+  mode: HoneyFormFieldMode | undefined;
+  /**
+   * The default re-validation mode of the interactive fields. It is set once when the form is created.
+   */
+  revalidateMode: HoneyFormFieldRevalidateMode | undefined;
+  /**
+   * The graph of the field dependencies. It is rebuilt when the fields are added or removed.
+   * It is `null` until the initial form fields are created.
+   */
+  dependencyGraph: HoneyFormDependencyGraph<HoneyFormBaseForm> | null;
 };
 
 /**
@@ -1067,6 +1547,31 @@ export type HoneyFormFieldMeta<
    * Indicates if field validation is scheduled.
    */
   isValidationScheduled: boolean;
+  /**
+   * The timeout ID of the pending debounced field validation, or `null` when no validation is pending.
+   */
+  validationTimeoutId: number | null;
+  /**
+   * The abort controller of the pending asynchronous field validation, or `null` when no validation is pending.
+   */
+  validationAbortController: AbortController | null;
+  /**
+   * The cached results of the asynchronous field validation and the form context they were received with.
+   * It is `null` until the first result is cached.
+   */
+  validationCache: {
+    formContext: FormContext;
+    results: Map<string, { result: HoneyFormFieldValidationResult; expiresAt: number | undefined }>;
+  } | null;
+  /**
+   * Indicates if the focus has left the field input at least once.
+   */
+  isTouched: boolean;
+  /**
+   * Indicates if the field value was changed locally by the user.
+   * The field values changed in other tabs are applied only to the fields that were not changed locally.
+   */
+  isLocallyChanged: boolean;
   /**
    * An array of child form contexts when applicable, or `undefined` initially.
    */
@@ -1126,6 +1631,13 @@ type BaseHoneyFormField<
      * @default false
      */
     isValidating: boolean;
+    /**
+     * Indicates whether the field value was changed in another tab while the field was changed locally.
+     * Only applicable when the form `syncAcrossTabs` option is enabled.
+     *
+     * @default false
+     */
+    hasRemoteChanges: boolean;
     /**
      * A function to set the field's value.
      */
@@ -1291,8 +1803,17 @@ export type ChildHoneyFormFieldsConfigs<
   >;
 };
 
+/**
+ * Represents the errors returned by the server, keyed by field name.
+ * The errors of the keys that are not form fields (e.g., `root`) are added to the form root errors.
+ */
 export type HoneyFormServerErrors<Form extends HoneyFormBaseForm> = {
-  [FieldName in keyof Form]: HoneyFormFieldErrorMessage[];
+  [FieldName in keyof Form]?: HoneyFormFieldErrorMessage[];
+} & {
+  /**
+   * Form-level errors that are not tied to any field (e.g., "Payment declined").
+   */
+  root?: HoneyFormFieldErrorMessage[];
 };
 
 export type HoneyFormDefaultValues<Form extends HoneyFormBaseForm> = Partial<Form>;
@@ -1314,6 +1835,38 @@ export type HoneyFormOnSubmit<Form extends HoneyFormBaseForm, FormContext = unde
   context: HoneyFormOnSubmitContext<FormContext>,
 ) => Promise<HoneyFormServerErrors<Form> | void>;
 
+type HoneyFormValidatorContext<FormContext> = {
+  formContext: FormContext;
+};
+
+/**
+ * Represents the result of the form-level validator.
+ */
+export type HoneyFormValidatorResult<Form extends HoneyFormBaseForm> = {
+  /**
+   * Errors of the form fields, keyed by field name.
+   * The errors are added to the errors of the field validators.
+   */
+  fieldErrors?: HoneyFormErrors<Form>;
+  /**
+   * Form-level error messages that are not tied to any field (e.g., "At least one contact method is required").
+   */
+  rootErrors?: HoneyFormFieldErrorMessage[];
+};
+
+/**
+ * Represents a form-level validator used for the rules that involve multiple fields.
+ *
+ * @param formValues - The current values of the form fields.
+ * @param context - The context object containing the form context.
+ *
+ * @returns The field errors and form-level error messages. An empty object means the form is valid.
+ */
+export type HoneyFormValidator<Form extends HoneyFormBaseForm, FormContext = undefined> = (
+  formValues: Form,
+  context: HoneyFormValidatorContext<FormContext>,
+) => HoneyFormValidatorResult<Form> | Promise<HoneyFormValidatorResult<Form>>;
+
 /**
  * The context object provided to the `HoneyFormOnChange` callback function, containing information about form field changes.
  */
@@ -1345,6 +1898,7 @@ export type HoneyFormOnChange<Form extends HoneyFormBaseForm, FormContext> = (
 ) => void;
 
 export type InitialFormFieldsStateResolverOptions<Form extends HoneyFormBaseForm, FormContext> = {
+  formMeta: HoneyFormMeta;
   formContext: FormContext;
   formFieldsRef: HoneyFormFieldsRef<Form, FormContext>;
   formDefaultsRef: HoneyFormDefaultsRef<Form>;
@@ -1433,10 +1987,73 @@ export type FormOptions<
   alwaysValidateParentField?: boolean;
   /**
    * Where to store the fields values when they changed and restore the values from storage.
+   * The form `name` is used as the key to store the values.
+   *
+   * - `qs`: The values are stored in the query string.
+   * - `ls`: The values are stored in the local storage and removed after a successful submission.
+   * - A custom storage adapter (e.g., session storage, IndexedDB or router search params).
+   *
+   * @default undefined
+   */
+  storage?: HoneyFormStorage;
+  /**
+   * The version of the form values schema saved to the storage.
+   * Increase the version when any field is renamed or its value type is changed,
+   * and provide the `storageMigrations` to upgrade the values saved with older versions.
+   *
+   * @remarks
+   * The values saved without a version are treated as version `0`.
+   *
+   * @default 0
+   */
+  storageVersion?: number;
+  /**
+   * The migrations to upgrade the form values saved with older versions step by step.
+   * The key is the version the migration upgrades from to the next version (e.g., `0` upgrades from `0` to `1`).
+   *
+   * @default undefined
+   */
+  storageMigrations?: HoneyFormStorageMigrations;
+  /**
+   * A callback function triggered when the form values saved to the storage cannot be restored.
+   * The saved form values are removed from the storage in this case.
+   *
+   * @default undefined
+   */
+  onStorageError?: HoneyFormOnStorageError;
+  /**
+   * The map of search parameters names to the form fields names used to prefill the form fields from the query string
+   * (e.g., `{ email: 'email' }` prefills the `email` field from `?email=a@b.c`).
+   * The field `deserializer` function is used for the search parameter value.
+   *
+   * @remarks
+   * The prefilled values extend/override the default values and the values read from storage.
    *
    * @default undefined
    */
-  storage?: 'qs' | 'ls';
+  prefillFromSearchParams?: Record<string, keyof Form>;
+  /**
+   * Synchronizes the form values saved to the storage across browser tabs.
+   * The values changed in another tab are applied only to the fields that were not changed locally.
+   * The fields changed locally get the `hasRemoteChanges` flag instead.
+   *
+   * @remarks
+   * The storage adapter must implement the `subscribe` function (the built-in local storage does).
+   *
+   * @default false
+   */
+  syncAcrossTabs?: boolean;
+  /**
+   * Applies the form values saved to the storage after each navigation (e.g., browser back/forward).
+   * The fields absent in the saved form data are reset to their default values.
+   * The applied values are not saved back to the storage, so no new history entries are created.
+   *
+   * @remarks
+   * The storage adapter must implement the `subscribeNavigation` function (the built-in query string storage does).
+   *
+   * @default false
+   */
+  syncWithNavigation?: boolean;
   /**
    * Any object that can be used to pass contextual data to field functions.
    * This provides a way to share additional information or context with field-specific logic.
@@ -1445,6 +2062,43 @@ export type FormOptions<
    * Context data should be wrapped in `useMemo` to prevent unnecessary recalculations.
    */
   context?: FormContext;
+  /**
+   * A form-level validator for the rules that involve multiple fields (e.g., "the totals must add up").
+   * It runs when the form is validated or submitted, after the field validators.
+   * The returned field errors are added to the field errors, the form-level error messages are available via `formRootErrors`.
+   */
+  validator?: HoneyFormValidator<Form, FormContext>;
+  /**
+   * The time in milliseconds after which the asynchronous field validators fail with the `timeout` error.
+   * The field `asyncValidationTimeout` option overrides it.
+   *
+   * @default undefined
+   */
+  asyncValidationTimeout?: number;
+  /**
+   * The maximum number of the custom field validators run concurrently when the form is validated or submitted.
+   * Use it to not flood the backend with the requests of the asynchronous field validators.
+   * The built-in validators and the fields without a custom validator are not limited.
+   *
+   * @default undefined (no limit)
+   */
+  maxConcurrentAsyncValidations?: number;
+  /**
+   * The default validation mode of the interactive fields.
+   * The field `mode` option overrides it.
+   * It is applied to the fields when the form is created, so changing it later has no effect.
+   *
+   * @default 'change'
+   */
+  mode?: HoneyFormFieldMode;
+  /**
+   * The default re-validation mode of the interactive fields that already have errors.
+   * The field `revalidateMode` option overrides it.
+   * It is applied to the fields when the form is created, so changing it later has no effect.
+   *
+   * @default 'change'
+   */
+  revalidateMode?: HoneyFormFieldRevalidateMode;
   /**
    * A callback function triggered when the form is submitted.
    */
@@ -1516,7 +2170,7 @@ export type ChildHoneyFormOptions<
       /**
        * Configuration for the form fields.
        */
-      fields?: ChildHoneyFormFieldsConfigs<ParentForm, ParentFieldName, FormContext>;
+      fields?: ChildHoneyFormFieldsConfigs<ParentForm, ParentFieldName, FormContext, ChildForm>;
       /**
        * The index of a child form within a parent form, if applicable.
        */
@@ -1527,7 +2181,15 @@ export type ChildHoneyFormOptions<
     ParentFieldName,
     FormContext
   >,
-  'name' | 'storage' | 'readDefaultsFromStorage'
+  | 'name'
+  | 'storage'
+  | 'readDefaultsFromStorage'
+  | 'storageVersion'
+  | 'storageMigrations'
+  | 'onStorageError'
+  | 'prefillFromSearchParams'
+  | 'syncAcrossTabs'
+  | 'syncWithNavigation'
 >;
 
 type MultiHoneyFormsOnSubmitContext<FormContext> = {
@@ -1620,6 +2282,14 @@ export type HoneyFormRemoveFormField<Form extends HoneyFormBaseForm> = <
 
 export type HoneyFormClearErrors = () => void;
 
+/**
+ * Function type for setting the form-level errors that are not tied to any field.
+ * The previous form root errors are replaced.
+ */
+export type HoneyFormSetFormRootErrors = (errors: HoneyFormFieldError[]) => void;
+
+export type HoneyFormClearRootErrors = () => void;
+
 /**
  * Options for form validating
  */
@@ -1700,11 +2370,205 @@ export type HoneyFormReset<Form extends HoneyFormBaseForm> = (
   newFormDefaults?: HoneyFormDefaultValues<Form>,
 ) => void;
 
+/**
+ * Represents the form values saved to the storage, but not submitted.
+ *
+ * @template Form - Type representing the entire form.
+ */
+export type HoneyFormUnfinishedForm<Form extends HoneyFormBaseForm> = {
+  /**
+   * The time when the form values were saved.
+   * Can be `undefined` when the storage does not keep the saving time (e.g., query string).
+   */
+  savedAt: Date | undefined;
+  /**
+   * The saved form values.
+   */
+  values: Partial<Form>;
+};
+
 /**
  * Restore unfinished form from the storage if detected.
  */
 export type HoneyFormRestoreUnfinishedForm = () => void;
 
+/**
+ * Discard unfinished form detected in the storage and remove it from the storage.
+ */
+export type HoneyFormDiscardUnfinishedForm = () => void;
+
+/**
+ * Represents the form data passed to and returned from the storage adapter.
+ */
+export type HoneyFormStoragePayload = {
+  /**
+   * The version of the form values schema.
+   * Can be `undefined` when the form values were saved without a version.
+   */
+  version?: number;
+  /**
+   * The timestamp in milliseconds when the form values were saved.
+   * Can be `undefined` when the storage does not keep the saving time (e.g., query string).
+   */
+  savedAt?: number;
+  /**
+   * The serialized form values.
+   */
+  values: Record<string, JSONValue>;
+};
+
+/**
+ * Represents the storage where the form values are saved when they changed.
+ * Any operation can be synchronous or return a Promise.
+ */
+export type HoneyFormStorageAdapter = {
+  /**
+   * Reads the saved form data.
+   *
+   * @param {string} formName - The name of the form to read.
+   *
+   * @returns {HoneyFormStoragePayload | undefined} - The saved form data, or `undefined` if the data is not found.
+   */
+  read: (
+    formName: string,
+  ) => HoneyFormStoragePayload | undefined | Promise<HoneyFormStoragePayload | undefined>;
+  /**
+   * Saves the form data.
+   *
+   * @param {string} formName - The name of the form to save.
+   * @param {HoneyFormStoragePayload} payload - The form data to save.
+   */
+  write: (formName: string, payload: HoneyFormStoragePayload) => void | Promise<void>;
+  /**
+   * Removes the saved form data.
+   *
+   * @param {string} formName - The name of the form which data should be removed.
+   */
+  clear: (formName: string) => void | Promise<void>;
+  /**
+   * Subscribes to the form data changes made outside the current page (e.g., in another browser tab).
+   * Required for the form `syncAcrossTabs` option.
+   *
+   * @param {string} formName - The name of the form to watch.
+   * @param {(payload: HoneyFormStoragePayload | undefined) => void} listener - The function called with the changed form data,
+   *  or with `undefined` when the form data is removed.
+   *
+   * @returns {() => void} - The function to unsubscribe.
+   */
+  subscribe?: (
+    formName: string,
+    listener: (payload: HoneyFormStoragePayload | undefined) => void,
+  ) => () => void;
+  /**
+   * Subscribes to the navigations that can change the saved form data (e.g., browser back/forward or router navigations).
+   * Required for the form `syncWithNavigation` option.
+   *
+   * @param {string} formName - The name of the form to watch.
+   * @param {() => void} listener - The function called after each navigation to read the form data again.
+   *
+   * @returns {() => void} - The function to unsubscribe.
+   */
+  subscribeNavigation?: (formName: string, listener: () => void) => () => void;
+  /**
+   * Whether the saved form data should be removed after a successful submission.
+   *
+   * @default false
+   */
+  clearAfterSubmit?: boolean;
+};
+
+/**
+ * Options for the built-in query string storage.
+ */
+export type HoneyFormQueryStringStorageOptions = {
+  /**
+   * How the form values are encoded in the query string.
+   *
+   * - `base64`: The whole form is stored as one base64-encoded JSON search parameter under the form name.
+   * - `params`: Each field value is stored in its own human-readable search parameter prefixed with the form name (e.g., `profile.email`).
+   *
+   * @default 'base64'
+   */
+  encoding?: 'base64' | 'params';
+  /**
+   * Whether to compress the form values using the LZ-style compression to fit more data into the query string.
+   * Works only with the `base64` encoding.
+   *
+   * @default false
+   */
+  compress?: boolean;
+  /**
+   * The maximum length of the whole query string.
+   * When the query string exceeds the limit, the form data is saved to the `fallbackStorage` if set.
+   * Otherwise, a warning is shown.
+   *
+   * @default 2000
+   */
+  maxQueryStringLength?: number;
+  /**
+   * The storage where the form data is saved when the query string exceeds the `maxQueryStringLength`.
+   * Only the short reference key to the saved form data is left in the query string.
+   *
+   * @default undefined
+   */
+  fallbackStorage?: HoneyFormStorageAdapter;
+};
+
+/**
+ * Represents the storage option of the form.
+ *
+ * - `qs`: The built-in query string storage.
+ * - `ls`: The built-in local storage.
+ * - Any custom storage adapter.
+ */
+export type HoneyFormStorage = 'qs' | 'ls' | HoneyFormStorageAdapter;
+
+/**
+ * Upgrades the serialized form values saved to the storage to the next version.
+ *
+ * @param {Record<string, JSONValue>} values - The serialized form values of the previous version.
+ *
+ * @returns {Record<string, JSONValue>} - The serialized form values of the next version.
+ */
+export type HoneyFormStorageMigration = (
+  values: Record<string, JSONValue>,
+) => Record<string, JSONValue>;
+
+/**
+ * The storage migrations where the key is the version the migration upgrades from.
+ */
+export type HoneyFormStorageMigrations = Record<number, HoneyFormStorageMigration>;
+
+/**
+ * A callback function triggered when the form values saved to the storage cannot be restored.
+ *
+ * @param {Error} error - The error that occurred while reading or restoring the form values.
+ * @param {unknown} rawPayload - The raw saved form data: the malformed form data returned from the storage adapter
+ *  or the `rawPayload` attached to the error thrown by the storage adapter (`undefined` when absent).
+ */
+export type HoneyFormOnStorageError = (error: Error, rawPayload: unknown) => void;
+
+/**
+ * The failure that occurred while reading or restoring the form data from the storage.
+ */
+export type HoneyFormStorageReadFailure = {
+  error: unknown;
+  /**
+   * The raw saved form data.
+   */
+  rawPayload: unknown;
+};
+
+/**
+ * Represents the error thrown by the storage adapter when the saved form data cannot be parsed.
+ */
+export type HoneyFormStorageReadError = Error & {
+  /**
+   * The raw saved form data (e.g., the query string search parameter value).
+   */
+  rawPayload: unknown;
+};
+
 export type HoneyFormState = {
   isValidating: boolean;
   isSubmitting: boolean;
@@ -7,8 +7,15 @@ import type {
   HoneyFormPassiveFieldValidator,
   CustomDateRangeForm,
   HoneyFormObjectFieldValidator,
+  HoneyFormBaseForm,
+  HoneyFormCrossFieldValidator,
+  HoneyFormFieldError,
+  HoneyFormField,
+  HoneyFormValues,
 } from './types';
 
+import { checkIfValueIsEmpty, markFieldErrorMessageAsDefault, sanitizeFieldValue } from './helpers';
+
 export const INTERACTIVE_FIELD_TYPE_VALIDATORS_MAP: Record<
   HoneyFormInteractiveFieldType,
   HoneyFormInteractiveFieldValidator<any, any, any>
@@ -23,10 +30,11 @@ export const INTERACTIVE_FIELD_TYPE_VALIDATORS_MAP: Record<
 
     return (
       isValidNumber || [
-        {
+        markFieldErrorMessageAsDefault({
           type: 'invalid',
           message: errorMessages.invalid ?? 'Invalid format',
-        },
+          code: 'invalidNumeric',
+        }),
       ]
     );
   },
@@ -44,14 +52,16 @@ export const INTERACTIVE_FIELD_TYPE_VALIDATORS_MAP: Record<
 
     return (
       isValidNumber || [
-        {
+        markFieldErrorMessageAsDefault({
           type: 'invalid',
           message:
             errorMessages.invalid ??
             `Only ${negative ? '' : 'positive '}${
               decimal ? `decimals with max fraction ${maxFraction}` : 'numerics'
             } are allowed`,
-        },
+          code: 'invalidNumber',
+          params: { decimal, negative, maxFraction },
+        }),
       ]
     );
   },
@@ -67,10 +77,11 @@ export const INTERACTIVE_FIELD_TYPE_VALIDATORS_MAP: Record<
 
     return (
       isValidEmail || [
-        {
+        markFieldErrorMessageAsDefault({
           type: 'invalid',
           message: errorMessages.invalid ?? 'Invalid email format',
-        },
+          code: 'invalidEmail',
+        }),
       ]
     );
   },
@@ -106,6 +117,7 @@ export const requiredBuiltInFieldValidator: HoneyFormFieldBuiltInValidator = (
     fieldErrors.push({
       type: 'required',
       message: fieldConfig.errorMessages?.required ?? 'The value is required',
+      code: 'required',
     });
   }
 };
@@ -136,6 +148,8 @@ export const minValueBuiltInFieldValidator: HoneyFormInteractiveFieldBuiltInVali
       message:
         fieldConfig.errorMessages?.min ??
         `The value must be greater than or equal to ${fieldConfig.min}`,
+      code: 'minValue',
+      params: { min: fieldConfig.min, actual: fieldValue },
     });
   }
 };
@@ -165,6 +179,8 @@ export const maxValueBuiltInFieldValidator: HoneyFormInteractiveFieldBuiltInVali
       message:
         fieldConfig.errorMessages?.max ??
         `The value must be less than or equal to ${fieldConfig.max}`,
+      code: 'maxValue',
+      params: { max: fieldConfig.max, actual: fieldValue },
     });
   }
 };
@@ -196,6 +212,8 @@ export const minMaxValueBuiltInFieldValidator: HoneyFormInteractiveFieldBuiltInV
       message:
         fieldConfig.errorMessages?.minMax ??
         `The value must be between ${fieldConfig.min} and ${fieldConfig.max}`,
+      code: 'minMaxValue',
+      params: { min: fieldConfig.min, max: fieldConfig.max, actual: fieldValue },
     });
   }
 };
@@ -226,6 +244,8 @@ export const minLengthBuiltInFieldValidator: HoneyFormInteractiveFieldBuiltInVal
       message:
         fieldConfig.errorMessages?.min ??
         `The length must be greater than or equal to ${fieldConfig.min} characters`,
+      code: 'minLength',
+      params: { min: fieldConfig.min, actual: fieldValue.length },
     });
   }
 };
@@ -256,6 +276,8 @@ export const maxLengthBuiltInFieldValidator: HoneyFormInteractiveFieldBuiltInVal
       message:
         fieldConfig.errorMessages?.max ??
         `The length must be less than or equal to ${fieldConfig.max} characters`,
+      code: 'maxLength',
+      params: { max: fieldConfig.max, actual: fieldValue.length },
     });
   }
 };
@@ -287,6 +309,8 @@ export const minMaxLengthBuiltInFieldValidator: HoneyFormInteractiveFieldBuiltIn
         message:
           fieldConfig.errorMessages?.minMax ??
           `The length must be exactly ${fieldConfig.min} characters`,
+        code: 'minMaxLength',
+        params: { min: fieldConfig.min, max: fieldConfig.max, actual: fieldValue.length },
       });
       //
       return;
@@ -297,6 +321,8 @@ export const minMaxLengthBuiltInFieldValidator: HoneyFormInteractiveFieldBuiltIn
       message:
         fieldConfig.errorMessages?.minMax ??
         `The length must be between ${fieldConfig.min} and ${fieldConfig.max} characters`,
+      code: 'minMaxLength',
+      params: { min: fieldConfig.min, max: fieldConfig.max, actual: fieldValue.length },
     });
   }
 };
@@ -469,6 +495,424 @@ export const createHoneyFormDateToValidator =
     return errorMsg;
   };
 
+//
+// Cross-Field Validators
+//
+
+/**
+ * Creates the validation result with the error of the cross-field validator.
+ * The default message can be replaced by the `HoneyFormConfigProvider` messages, while the custom error message is kept.
+ * The error code and params are kept in both cases.
+ *
+ * @param {HoneyFormFieldError} fieldError - The field error with the default message.
+ * @param {string | undefined} errorMsg - The custom error message.
+ *
+ * @returns {HoneyFormFieldError[]} - The field errors.
+ */
+const getCrossFieldValidatorErrors = (
+  fieldError: HoneyFormFieldError,
+  errorMsg?: string,
+): HoneyFormFieldError[] => [
+  errorMsg === undefined
+    ? markFieldErrorMessageAsDefault(fieldError)
+    : { ...fieldError, message: errorMsg },
+];
+
+/**
+ * Gets the clean value of the other form field to compare it with the validated value.
+ * The validated value is not formatted, so the formatted `value` of the other field cannot be used.
+ *
+ * @param {HoneyFormField<Form, FieldName, FormContext>} formField - The other form field.
+ *
+ * @returns {Form[FieldName] | undefined} - The filtered and sanitized value of the field.
+ */
+const getOtherFieldCleanValue = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext,
+>(
+  formField: HoneyFormField<Form, FieldName, FormContext>,
+): Form[FieldName] | undefined => sanitizeFieldValue(formField.config.type, formField.rawValue);
+
+type CreateHoneyFormMatchFieldValidatorOptions<
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+> = {
+  /**
+   * The field which value should be matched (e.g., `password` for the `confirmPassword` field).
+   */
+  fieldKey: Exclude<keyof Form, FieldName>;
+  errorMsg?: string;
+};
+
+/**
+ * Creates a validator function to ensure the field value matches the value of another field (e.g., confirm password or email).
+ *
+ * @param {CreateHoneyFormMatchFieldValidatorOptions<Form, FieldName>} options - Options for creating the validator.
+ * @returns {HoneyFormCrossFieldValidator<Form, FieldName, FormContext>} - The validator function.
+ */
+export const createHoneyFormMatchFieldValidator =
+  <Form extends HoneyFormBaseForm, FieldName extends keyof Form, FormContext = undefined>({
+    fieldKey,
+    errorMsg,
+  }: CreateHoneyFormMatchFieldValidatorOptions<Form, FieldName>): HoneyFormCrossFieldValidator<
+    Form,
+    FieldName,
+    FormContext
+  > =>
+  (value, { formFields, scheduleValidation }) => {
+    // Schedule validation for the matched field
+    scheduleValidation(fieldKey);
+
+    // If the value is not set, consider it valid. The `required` check is responsible for the empty values
+    if (
+      checkIfValueIsEmpty(value) ||
+      value === (getOtherFieldCleanValue(formFields[fieldKey]) as unknown)
+    ) {
+      return true;
+    }
+
+    return getCrossFieldValidatorErrors(
+      {
+        type: 'invalid',
+        message: 'The values do not match',
+        code: 'mismatch',
+        params: { field: String(fieldKey) },
+      },
+      errorMsg,
+    );
+  };
+
+type CreateHoneyFormRequiredIfValidatorOptions<
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FieldKey extends Exclude<keyof Form, FieldName>,
+> = {
+  /**
+   * The field which value the condition depends on.
+   */
+  fieldKey: FieldKey;
+  /**
+   * The condition of the other field clean (not formatted) value. Default is the check that the value is not empty.
+   */
+  condition?: (
+    fieldValue: Form[FieldKey] | undefined,
+    formValues: HoneyFormValues<Form>,
+  ) => boolean;
+  errorMsg?: string;
+};
+
+/**
+ * Creates a validator function that requires the field value depending on the condition of another field value.
+ *
+ * @param {boolean} isRequiredWhen - The condition result when the field value is required.
+ * @param {CreateHoneyFormRequiredIfValidatorOptions<Form, FieldName, FieldKey>} options - Options for creating the validator.
+ * @returns {HoneyFormCrossFieldValidator<Form, FieldName, FormContext>} - The validator function.
+ */
+const createRequiredWhenValidator =
+  <
+    Form extends HoneyFormBaseForm,
+    FieldName extends keyof Form,
+    FormContext,
+    FieldKey extends Exclude<keyof Form, FieldName>,
+  >(
+    isRequiredWhen: boolean,
+    {
+      fieldKey,
+      condition = fieldValue => !checkIfValueIsEmpty(fieldValue),
+      errorMsg,
+    }: CreateHoneyFormRequiredIfValidatorOptions<Form, FieldName, FieldKey>,
+  ): HoneyFormCrossFieldValidator<Form, FieldName, FormContext> =>
+  (value, { formFields, formValues, scheduleValidation }) => {
+    // Schedule validation for the field the condition depends on
+    scheduleValidation(fieldKey);
+
+    if (
+      !checkIfValueIsEmpty(value) ||
+      condition(getOtherFieldCleanValue(formFields[fieldKey]), formValues) !== isRequiredWhen
+    ) {
+      return true;
+    }
+
+    return getCrossFieldValidatorErrors(
+      {
+        type: 'required',
+        message: 'The value is required',
+        code: 'required',
+      },
+      errorMsg,
+    );
+  };
+
+/**
+ * Creates a validator function that requires the field value when the condition of another field value is met.
+ * By default, the field is required when the other field has a value.
+ *
+ * @param {CreateHoneyFormRequiredIfValidatorOptions<Form, FieldName, FieldKey>} options - Options for creating the validator.
+ * @returns {HoneyFormCrossFieldValidator<Form, FieldName, FormContext>} - The validator function.
+ */
+export const createHoneyFormRequiredIfValidator = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext = undefined,
+  FieldKey extends Exclude<keyof Form, FieldName> = Exclude<keyof Form, FieldName>,
+>(
+  options: CreateHoneyFormRequiredIfValidatorOptions<Form, FieldName, FieldKey>,
+) => createRequiredWhenValidator<Form, FieldName, FormContext, FieldKey>(true, options);
+
+/**
+ * Creates a validator function that requires the field value unless the condition of another field value is met.
+ * By default, the field is required when the other field has no value.
+ *
+ * @param {CreateHoneyFormRequiredIfValidatorOptions<Form, FieldName, FieldKey>} options - Options for creating the validator.
+ * @returns {HoneyFormCrossFieldValidator<Form, FieldName, FormContext>} - The validator function.
+ */
+export const createHoneyFormRequiredUnlessValidator = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext = undefined,
+  FieldKey extends Exclude<keyof Form, FieldName> = Exclude<keyof Form, FieldName>,
+>(
+  options: CreateHoneyFormRequiredIfValidatorOptions<Form, FieldName, FieldKey>,
+) => createRequiredWhenValidator<Form, FieldName, FormContext, FieldKey>(false, options);
+
+type CreateHoneyFormAtLeastOneOfValidatorOptions<
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+> = {
+  /**
+   * The other fields of the group. The same validator should be set for each field of the group.
+   */
+  fieldKeys: Exclude<keyof Form, FieldName>[];
+  errorMsg?: string;
+};
+
+/**
+ * Creates a validator function to ensure at least one field of the group has a value (e.g., email or phone).
+ *
+ * @param {CreateHoneyFormAtLeastOneOfValidatorOptions<Form, FieldName>} options - Options for creating the validator.
+ * @returns {HoneyFormCrossFieldValidator<Form, FieldName, FormContext>} - The validator function.
+ */
+export const createHoneyFormAtLeastOneOfValidator =
+  <Form extends HoneyFormBaseForm, FieldName extends keyof Form, FormContext = undefined>({
+    fieldKeys,
+    errorMsg,
+  }: CreateHoneyFormAtLeastOneOfValidatorOptions<Form, FieldName>): HoneyFormCrossFieldValidator<
+    Form,
+    FieldName,
+    FormContext
+  > =>
+  (value, { formFields, scheduleValidation }) => {
+    // Schedule validation for the other fields of the group
+    fieldKeys.forEach(fieldKey => scheduleValidation(fieldKey));
+
+    if (
+      !checkIfValueIsEmpty(value) ||
+      fieldKeys.some(
+        fieldKey => !checkIfValueIsEmpty(getOtherFieldCleanValue(formFields[fieldKey])),
+      )
+    ) {
+      return true;
+    }
+
+    return getCrossFieldValidatorErrors(
+      {
+        type: 'required',
+        message: 'At least one of the values is required',
+        code: 'atLeastOneOf',
+        params: { fields: fieldKeys.join(', ') },
+      },
+      errorMsg,
+    );
+  };
+
+//
+// Range Validators
+//
+
+/**
+ * The type of the range values: numbers, strings or ISO dates (e.g., `2031-04-05`).
+ */
+type RangeValueType = 'number' | 'string' | 'isoDate';
+
+type RangeValue = number | string;
+
+const RANGE_VALUE_PARSERS: Record<RangeValueType, (value: RangeValue) => number | string> = {
+  number: value => Number(value),
+  string: value => String(value),
+  isoDate: value => Date.parse(String(value)),
+};
+
+type CreateRangeValidatorOptions = {
+  valueType: RangeValueType;
+  min?: RangeValue;
+  max?: RangeValue;
+  /**
+   * The custom message of the error when the value is out of the range of the other boundary field.
+   */
+  errorMsg?: string;
+  inclusiveRange?: boolean;
+};
+
+/**
+ * Parses the range value to compare it with the other range values.
+ *
+ * @param {RangeValueType} valueType - The type of the range values.
+ * @param {RangeValue} value - The value to parse.
+ *
+ * @returns {number | string | null} - The comparable value or `null` when the value cannot be parsed (e.g., not a date).
+ */
+const parseRangeValue = (valueType: RangeValueType, value: RangeValue): number | string | null => {
+  const parsedValue = RANGE_VALUE_PARSERS[valueType](value);
+
+  return typeof parsedValue === 'number' && Number.isNaN(parsedValue) ? null : parsedValue;
+};
+
+/**
+ * Compares the parsed range values.
+ *
+ * @returns {number} - A negative number when `a` is less than `b`, a positive number when `a` is greater than `b`, otherwise `0`.
+ */
+const compareRangeValues = (a: number | string, b: number | string): number =>
+  typeof a === 'string' && typeof b === 'string' ? a.localeCompare(b) : Number(a) - Number(b);
+
+/**
+ * Creates a validator function to ensure the validity of a range boundary field.
+ * The unparsable value, the value out of the `min`/`max` bounds and the value out of the range of the other boundary field
+ * produce the distinct errors.
+ *
+ * @param {boolean} isRangeFrom - Whether the field is the "From" boundary of the range.
+ * @param {Exclude<keyof Form, FieldName>} counterpartKey - The other boundary field of the range.
+ * @param {CreateRangeValidatorOptions} options - Options for creating the validator.
+ * @returns {HoneyFormCrossFieldValidator<Form, FieldName, FormContext>} - The validator function.
+ */
+const createRangeValidator =
+  <Form extends HoneyFormBaseForm, FieldName extends keyof Form, FormContext>(
+    isRangeFrom: boolean,
+    counterpartKey: Exclude<keyof Form, FieldName>,
+    { valueType, min, max, errorMsg, inclusiveRange = true }: CreateRangeValidatorOptions,
+  ): HoneyFormCrossFieldValidator<Form, FieldName, FormContext> =>
+  (value, { formFields, scheduleValidation }) => {
+    // Schedule validation for the other boundary of the range
+    scheduleValidation(counterpartKey);
+
+    // If the value is not set, consider it valid
+    if (checkIfValueIsEmpty(value)) {
+      return true;
+    }
+
+    const rangeValue = parseRangeValue(valueType, value as RangeValue);
+
+    if (rangeValue === null) {
+      return getCrossFieldValidatorErrors({
+        type: 'invalid',
+        message:
+          valueType === 'isoDate'
+            ? 'The value is not a valid date'
+            : 'The value is not a valid number',
+        code: 'invalidRangeValue',
+        params: { valueType, actual: value as RangeValue },
+      });
+    }
+
+    if (min !== undefined && compareRangeValues(rangeValue, parseRangeValue(valueType, min)) < 0) {
+      return getCrossFieldValidatorErrors({
+        type: 'min',
+        message: `The value must be greater than or equal to ${min}`,
+        code: 'minValue',
+        params: { min, actual: value as RangeValue },
+      });
+    }
+
+    if (max !== undefined && compareRangeValues(rangeValue, parseRangeValue(valueType, max)) > 0) {
+      return getCrossFieldValidatorErrors({
+        type: 'max',
+        message: `The value must be less than or equal to ${max}`,
+        code: 'maxValue',
+        params: { max, actual: value as RangeValue },
+      });
+    }
+
+    const counterpartValue = getOtherFieldCleanValue(formFields[counterpartKey]) as
+      | RangeValue
+      | undefined;
+
+    // The invalid value of the other boundary is reported by its own validator
+    const counterpartRangeValue = checkIfValueIsEmpty(counterpartValue)
+      ? null
+      : parseRangeValue(valueType, counterpartValue);
+
+    if (counterpartRangeValue === null) {
+      return true;
+    }
+
+    const difference = isRangeFrom
+      ? compareRangeValues(rangeValue, counterpartRangeValue)
+      : compareRangeValues(counterpartRangeValue, rangeValue);
+
+    if (inclusiveRange ? difference <= 0 : difference < 0) {
+      return true;
+    }
+
+    return getCrossFieldValidatorErrors(
+      {
+        type: 'invalid',
+        message: isRangeFrom
+          ? '"From" value should be equal or less than "To" value'
+          : '"To" value should be equal or greater than "From" value',
+        code: 'invalidRange',
+        params: { field: String(counterpartKey) },
+      },
+      errorMsg,
+    );
+  };
+
+type CreateHoneyFormRangeFromValidatorOptions<
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+> = CreateRangeValidatorOptions & {
+  rangeToKey: Exclude<keyof Form, FieldName>;
+};
+
+/**
+ * Creates a validator function to ensure the validity of a "From" field within the context of a number, string or ISO date range.
+ *
+ * @param {CreateHoneyFormRangeFromValidatorOptions<Form, FieldName>} options - Options for creating the validator.
+ * @returns {HoneyFormCrossFieldValidator<Form, FieldName, FormContext>} - The validator function for "From" field.
+ */
+export const createHoneyFormRangeFromValidator = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext = undefined,
+>({
+  rangeToKey,
+  ...options
+}: CreateHoneyFormRangeFromValidatorOptions<Form, FieldName>) =>
+  createRangeValidator<Form, FieldName, FormContext>(true, rangeToKey, options);
+
+type CreateHoneyFormRangeToValidatorOptions<
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+> = CreateRangeValidatorOptions & {
+  rangeFromKey: Exclude<keyof Form, FieldName>;
+};
+
+/**
+ * Creates a validator function to ensure the validity of a "To" field within the context of a number, string or ISO date range.
+ *
+ * @param {CreateHoneyFormRangeToValidatorOptions<Form, FieldName>} options - Options for creating the validator.
+ * @returns {HoneyFormCrossFieldValidator<Form, FieldName, FormContext>} - The validator function for "To" field.
+ */
+export const createHoneyFormRangeToValidator = <
+  Form extends HoneyFormBaseForm,
+  FieldName extends keyof Form,
+  FormContext = undefined,
+>({
+  rangeFromKey,
+  ...options
+}: CreateHoneyFormRangeToValidatorOptions<Form, FieldName>) =>
+  createRangeValidator<Form, FieldName, FormContext>(false, rangeFromKey, options);
+
 export const BUILT_IN_FIELD_VALIDATORS = [requiredBuiltInFieldValidator];
 
 export const BUILT_IN_INTERACTIVE_FIELD_VALIDATORS = [